@@ -0,0 +1,313 @@
+import { GraphQLClient, gql } from 'graphql-request';
+import { NormalizedResult, CodeSnippet, ResolvedTimeWindow } from '../types/index.js';
+import { githubLimiter, scheduleRequest } from '../utils/rateLimiter.js';
+import { APIError, handleAPIError } from '../utils/errorHandler.js';
+import { GitHubSearchStrategy, ProblemType, ProblemTypeDistribution } from '../core/queryAnalyzer.js';
+import { blendThresholds, distributionFor, shareOf } from '../core/problemTypes.js';
+import { SearchContext, SourceAdapter } from './registry.js';
+import { toISODate } from '../utils/timeWindow.js';
+import { FilterStats } from '../utils/filterStats.js';
+import { githubAuthority } from '../utils/authority.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+const GRAPHQL_URL = 'https://api.github.com/graphql';
+
+const SEARCH_DISCUSSIONS = gql`
+  query SearchDiscussions($query: String!, $first: Int!, $after: String) {
+    search(query: $query, type: DISCUSSION, first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ... on Discussion {
+          title
+          url
+          body
+          createdAt
+          updatedAt
+          upvoteCount
+          author {
+            login
+          }
+          authorAssociation
+          category {
+            name
+            isAnswerable
+          }
+          answer {
+            body
+            upvoteCount
+            author {
+              login
+            }
+          }
+          comments {
+            totalCount
+          }
+          labels(first: 10) {
+            nodes {
+              name
+            }
+          }
+          repository {
+            nameWithOwner
+            stargazerCount
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface GitHubDiscussion {
+  title: string;
+  url: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  upvoteCount: number;
+  author: {
+    login: string;
+  } | null;
+  authorAssociation?: string;
+  category: {
+    name: string;
+    isAnswerable: boolean;
+  };
+  answer: {
+    body: string;
+    upvoteCount: number;
+    author: {
+      login: string;
+    } | null;
+  } | null;
+  comments: {
+    totalCount: number;
+  };
+  labels: {
+    nodes: Array<{
+      name: string;
+    }>;
+  } | null;
+  repository: {
+    nameWithOwner: string;
+    stargazerCount: number;
+  };
+}
+
+interface SearchDiscussionsResponse {
+  search: {
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
+    // Nodes of other types come back as empty objects
+    nodes: Array<GitHubDiscussion | Record<string, never>>;
+  };
+}
+
+export class GitHubDiscussionsAdapter implements SourceAdapter<GitHubSearchStrategy> {
+  private client: GraphQLClient | null;
+
+  constructor() {
+    const token = process.env.GITHUB_TOKEN;
+
+    // The GraphQL API does not allow anonymous access
+    this.client = token
+      ? new GraphQLClient(GRAPHQL_URL, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'User-Agent': 'DevScope-MCP-Server',
+        },
+      })
+      : null;
+  }
+
+  async search(query: string, maxResults = 5, strategy?: GitHubSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
+    try {
+      return await this.performSearch(query, maxResults, strategy, problemType, context);
+    } catch (error) {
+      handleAPIError(error, 'GitHub Discussions');
+      return [];
+    }
+  }
+
+  private async performSearch(query: string, maxResults: number, strategy?: GitHubSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
+    if (!this.client) {
+      throw new APIError('GitHub Discussions search requires GITHUB_TOKEN', 'GitHub Discussions', 401);
+    }
+
+    const searchQuery = this.buildSearchQuery(query, strategy, context?.timeWindow);
+    const maxPages = context?.profile.maxPages || 1;
+    const limit = context?.profile.fetchDetails ? maxResults * maxPages : maxResults;
+    const problemTypes = distributionFor(problemType, context?.problemTypes);
+
+    const discussions: GitHubDiscussion[] = [];
+    let after: string | null = null;
+
+    for (let page = 1; page <= maxPages && discussions.length < limit; page++) {
+      if (page > 1 && (!after || !context?.budget.canSpend())) {
+        break;
+      }
+
+      context?.budget.consume();
+      const client = this.client;
+      const signal = context?.budget.signal;
+      const response: SearchDiscussionsResponse = await scheduleRequest(githubLimiter, () => client.request<SearchDiscussionsResponse>({
+        document: SEARCH_DISCUSSIONS,
+        variables: {
+          query: searchQuery,
+          first: Math.min(maxResults * 2, 50), // Get more to filter
+          after,
+        },
+        signal,
+      }), signal);
+
+      const pageDiscussions = response.search.nodes.filter(
+        (node): node is GitHubDiscussion => 'url' in node
+      );
+      context?.filterStats?.fetched(pageDiscussions.length);
+      discussions.push(...this.filterResults(pageDiscussions, problemTypes, context?.filterStats));
+
+      after = response.search.pageInfo.hasNextPage ? response.search.pageInfo.endCursor : null;
+    }
+
+    console.log(`GitHub Discussions found ${discussions.length} results`);
+    return this.normalizeResults(discussions.slice(0, limit), problemTypes);
+  }
+
+  private buildSearchQuery(query: string, strategy?: GitHubSearchStrategy, timeWindow?: ResolvedTimeWindow): string {
+    let searchQuery = `${strategy?.query || query} in:title,body`;
+
+    // Type qualifiers belong to issue search; only author and label exclusions carry over
+    const exclusions = (strategy?.excludePatterns || []).filter(pattern =>
+      pattern.startsWith('-author:') || pattern.startsWith('-label:')
+    );
+    if (exclusions.length > 0) {
+      searchQuery += ` ${exclusions.join(' ')}`;
+    }
+
+    if (timeWindow?.from) {
+      searchQuery += ` updated:>=${toISODate(timeWindow.from)}`;
+    }
+    if (timeWindow?.to) {
+      searchQuery += ` created:<=${toISODate(timeWindow.to)}`;
+    }
+
+    return searchQuery;
+  }
+
+  private filterResults(discussions: GitHubDiscussion[], problemTypes: ProblemTypeDistribution, stats?: FilterStats): GitHubDiscussion[] {
+    const { minComments, minUpvotes, requireAnswer } = blendThresholds(filters.github.discussions.qualityThresholds, problemTypes);
+
+    return discussions.filter(discussion => {
+      if (discussion.comments.totalCount < minComments) {
+        stats?.removed('minComments');
+        return false;
+      }
+
+      if (discussion.upvoteCount < minUpvotes) {
+        stats?.removed('minUpvotes');
+        return false;
+      }
+
+      // Only Q&A categories can have an answer at all
+      if (requireAnswer && discussion.category.isAnswerable && !discussion.answer) {
+        stats?.removed('requireAnswer');
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  private normalizeResults(discussions: GitHubDiscussion[], problemTypes: ProblemTypeDistribution): NormalizedResult[] {
+    return discussions.map(discussion => {
+      const content = this.buildContent(discussion);
+      const codeSnippets = this.extractCodeSnippets(content);
+      const labels = discussion.labels?.nodes.map(label => label.name) || [];
+
+      return {
+        title: discussion.title,
+        url: discussion.url,
+        source: 'github-discussions',
+        author: discussion.author?.login || 'ghost',
+        authority: githubAuthority(discussion.authorAssociation, filters.github.maintainerAssociations),
+        createdAt: new Date(discussion.createdAt),
+        updatedAt: new Date(discussion.updatedAt),
+        score: this.calculateScore(discussion, problemTypes),
+        content,
+        codeSnippets,
+        tags: [discussion.category.name, ...labels],
+        isAccepted: !!discussion.answer,
+        voteCount: discussion.upvoteCount + (discussion.answer?.upvoteCount || 0),
+      };
+    });
+  }
+
+  private buildContent(discussion: GitHubDiscussion): string {
+    let content = `Repository: ${discussion.repository.nameWithOwner} (⭐ ${discussion.repository.stargazerCount})\n`;
+    content += `Category: ${discussion.category.name}\n\n`;
+
+    content += discussion.body || 'No description provided.';
+
+    if (discussion.answer?.body) {
+      content += `\n\n--- MARKED ANSWER by ${discussion.answer.author?.login || 'ghost'} ---\n\n`;
+      content += discussion.answer.body;
+    }
+
+    return content;
+  }
+
+  private extractCodeSnippets(content: string): CodeSnippet[] {
+    const snippets: CodeSnippet[] = [];
+    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
+
+    let match;
+    while ((match = codeBlockRegex.exec(content)) !== null) {
+      snippets.push({
+        language: match[1] || 'plaintext',
+        code: match[2].trim(),
+      });
+    }
+
+    return snippets;
+  }
+
+  private calculateScore(discussion: GitHubDiscussion, problemTypes: ProblemTypeDistribution): number {
+    let score = 0;
+
+    // Repository quality scoring
+    const stars = discussion.repository.stargazerCount;
+    if (stars > 10000) {
+      score += filters.github.repositoryBoosts.official;
+    } else if (stars > 1000) {
+      score += filters.github.repositoryBoosts.highStars;
+    } else if (stars > 100) {
+      score += filters.github.repositoryBoosts.wellMaintained;
+    }
+    score += Math.min(stars / 100, 30);
+
+    // Engagement scoring
+    score += Math.min(discussion.upvoteCount * 3, 30);
+    score += Math.min(discussion.comments.totalCount * 2, 20);
+
+    // A marked answer is the discussion equivalent of an accepted answer
+    if (discussion.answer) {
+      score += filters.github.discussions.answeredBoost;
+      score += 10 * shareOf(problemTypes, ProblemType.CONFIGURATION, ProblemType.BEST_PRACTICE);
+    }
+
+    return Math.round(score);
+  }
+}
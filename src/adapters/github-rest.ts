@@ -1,8 +1,13 @@
 import axios from 'axios';
-import { NormalizedResult, CodeSnippet } from '../types/index.js';
-import { githubLimiter, withRetry } from '../utils/rateLimiter.js';
+import { NormalizedResult, CodeSnippet, IssueResolution, ResolvedTimeWindow } from '../types/index.js';
+import { githubLimiter, scheduleRequest } from '../utils/rateLimiter.js';
 import { handleAPIError } from '../utils/errorHandler.js';
-import { GitHubSearchStrategy, ProblemType } from '../core/queryAnalyzer.js';
+import { GitHubSearchStrategy, ProblemType, ProblemTypeDistribution } from '../core/queryAnalyzer.js';
+import { MAJORITY_SHARE, blend, blendThresholds, distributionFor, shareOf } from '../core/problemTypes.js';
+import { SearchContext, SourceAdapter } from './registry.js';
+import { FilterStats } from '../utils/filterStats.js';
+import { githubAuthority } from '../utils/authority.js';
+import { toISODate } from '../utils/timeWindow.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
@@ -16,35 +21,69 @@ const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
 
 const BASE_URL = 'https://api.github.com';
 
+// A pull request merged this close to the issue closing is what closed it
+const CLOSING_MERGE_WINDOW_MS = 60 * 1000;
+
 interface GitHubIssue {
   id: number;
   title: string;
   html_url: string;
   number: number;
   state: string;
+  state_reason?: string | null;
   created_at: string;
   updated_at: string;
   user: {
     login: string;
   };
+  author_association?: string;
   repository_url: string;
   labels: Array<{
     name: string;
   }>;
   body: string | null;
   comments: number;
+  timeline_url: string;
   reactions?: {
     total_count: number;
     '+1': number;
   };
 }
 
+interface GitHubTimelineEvent {
+  event: string;
+  created_at?: string;
+  // Set on `commented` events
+  body?: string | null;
+  user?: {
+    login: string;
+  } | null;
+  author_association?: string;
+  reactions?: {
+    total_count: number;
+  };
+  // Set on `closed` and `referenced` events
+  commit_id?: string | null;
+  commit_url?: string | null;
+  // Set on `cross-referenced` events
+  source?: {
+    type: string;
+    issue?: {
+      title: string;
+      html_url: string;
+      pull_request?: {
+        merged_at: string | null;
+      };
+    };
+  };
+}
+
 interface GitHubRepo {
   full_name: string;
   stargazers_count: number;
 }
 
-export class GitHubRestAdapter {
+export class GitHubRestAdapter implements SourceAdapter<GitHubSearchStrategy> {
   private headers: Record<string, string>;
 
   constructor() {
@@ -60,46 +99,65 @@ export class GitHubRestAdapter {
     }
   }
 
-  async search(query: string, maxResults = 5, strategy?: GitHubSearchStrategy, problemType?: ProblemType): Promise<NormalizedResult[]> {
+  async search(query: string, maxResults = 5, strategy?: GitHubSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
     try {
-      return await githubLimiter.schedule(() =>
-        withRetry(() => this.performSearch(query, maxResults, strategy, problemType))
-      );
+      return await this.performSearch(query, maxResults, strategy, problemType, context);
     } catch (error) {
       handleAPIError(error, 'GitHub');
       return [];
     }
   }
 
-  private async performSearch(query: string, maxResults: number, strategy?: GitHubSearchStrategy, problemType?: ProblemType): Promise<NormalizedResult[]> {
+  private async performSearch(query: string, maxResults: number, strategy?: GitHubSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
     try {
       // Build enhanced search query with filtering
-      const searchQuery = this.buildSearchQuery(query, strategy, problemType);
-      
-      const response = await axios.get(`${BASE_URL}/search/issues`, {
-        headers: this.headers,
-        params: {
+      const searchQuery = this.buildSearchQuery(query, strategy, problemType, context?.timeWindow);
+      const problemTypes = distributionFor(problemType, context?.problemTypes);
+      const perPage = Math.min(maxResults * 2, 50); // Get more to filter
+      const maxPages = context?.profile.maxPages || 1;
+      const limit = context?.profile.fetchDetails ? maxResults * maxPages : maxResults;
+
+      const filteredIssues: GitHubIssue[] = [];
+
+      // Keep paging while too few issues survive filtering and the budget allows
+      for (let page = 1; page <= maxPages; page++) {
+        if (page > 1 && !context?.budget.canSpend()) {
+          break;
+        }
+
+        context?.budget.consume();
+        const response = await this.get(`${BASE_URL}/search/issues`, {
           q: searchQuery,
-          sort: problemType === ProblemType.BUG_REPORT ? 'updated' : 'reactions',
+          sort: shareOf(problemTypes, ProblemType.BUG_REPORT) >= MAJORITY_SHARE ? 'updated' : 'reactions',
           order: 'desc',
-          per_page: Math.min(maxResults * 2, 50), // Get more to filter
-        },
-      });
+          per_page: perPage,
+          page,
+        }, context);
 
-      const issues = response.data.items || [];
-      
-      // Log rate limit info
-      const remaining = response.headers['x-ratelimit-remaining'];
-      const reset = response.headers['x-ratelimit-reset'];
-      console.log(`GitHub API - Remaining: ${remaining}, Reset: ${new Date(parseInt(reset) * 1000).toLocaleTimeString()}`);
+        const pageIssues: GitHubIssue[] = response.data.items || [];
+        context?.filterStats?.fetched(pageIssues.length);
+        filteredIssues.push(...this.filterResults(pageIssues, problemTypes, context?.timeWindow, context?.filterStats));
 
-      // Fetch repository details for each issue
+        // Log rate limit info
+        const remaining = response.headers['x-ratelimit-remaining'];
+        const reset = response.headers['x-ratelimit-reset'];
+        console.log(`GitHub API - Remaining: ${remaining}, Reset: ${new Date(parseInt(reset) * 1000).toLocaleTimeString()}`);
+
+        if (pageIssues.length < perPage || filteredIssues.length >= limit) {
+          break;
+        }
+      }
+
+      const selectedIssues = filteredIssues.slice(0, limit);
+
+      // Fetch repository details only for issues that survived filtering
       const repoCache = new Map<string, GitHubRepo>();
-      for (const issue of issues) {
+      for (const issue of selectedIssues) {
         const repoUrl = issue.repository_url;
-        if (!repoCache.has(repoUrl)) {
+        if (!repoCache.has(repoUrl) && (!context || context.budget.canSpend())) {
           try {
-            const repoResponse = await axios.get(repoUrl, { headers: this.headers });
+            context?.budget.consume();
+            const repoResponse = await this.get(repoUrl, {}, context);
             repoCache.set(repoUrl, repoResponse.data);
           } catch (error) {
             console.error('Failed to fetch repo details:', error);
@@ -107,16 +165,46 @@ export class GitHubRestAdapter {
         }
       }
 
-      // Filter results based on quality criteria
-      const filteredIssues = this.filterResults(issues, problemType);
-      return this.normalizeResults(filteredIssues.slice(0, maxResults), repoCache, problemType);
+      // The timeline carries both the comments and how the issue was closed
+      const timelineCache = await this.fetchTimelines(selectedIssues, context);
+
+      return this.normalizeResults(selectedIssues, repoCache, timelineCache, problemTypes, context?.profile.fetchDetails);
     } catch (error) {
       console.error('GitHub search error:', error);
       throw error;
     }
   }
 
-  private buildSearchQuery(query: string, strategy?: GitHubSearchStrategy, _problemType?: ProblemType): string {
+  // Each request is rate limited and retried on its own, and stops when the source runs out of time
+  private get(url: string, params: Record<string, unknown>, context?: SearchContext) {
+    const signal = context?.budget.signal;
+    return scheduleRequest(githubLimiter, () => axios.get(url, { headers: this.headers, params, signal }), signal);
+  }
+
+  private async fetchTimelines(issues: GitHubIssue[], context?: SearchContext): Promise<Map<number, GitHubTimelineEvent[]>> {
+    const timelineCache = new Map<number, GitHubTimelineEvent[]>();
+
+    for (const issue of issues) {
+      if (context && timelineCache.size >= context.profile.maxTimelines) {
+        break;
+      }
+      if ((issue.comments === 0 && issue.state !== 'closed') || (context && !context.budget.canSpend())) {
+        continue;
+      }
+
+      try {
+        context?.budget.consume();
+        const response = await this.get(issue.timeline_url, { per_page: 100 }, context);
+        timelineCache.set(issue.id, response.data || []);
+      } catch (error) {
+        console.error('Failed to fetch issue timeline:', error);
+      }
+    }
+
+    return timelineCache;
+  }
+
+  private buildSearchQuery(query: string, strategy?: GitHubSearchStrategy, _problemType?: ProblemType, timeWindow?: ResolvedTimeWindow): string {
     let searchQuery = `${query} in:title,body is:public`;
     
     // Add strategy-specific query modifications
@@ -141,37 +229,47 @@ export class GitHubRestAdapter {
     if (prioritizeTypes.length > 0) {
       searchQuery += ` (${prioritizeTypes.join(' OR ')})`;
     }
+
+    // Issues must have been opened before the window ends and active since it started
+    if (timeWindow?.from) {
+      searchQuery += ` updated:>=${toISODate(timeWindow.from)}`;
+    }
+    if (timeWindow?.to) {
+      searchQuery += ` created:<=${toISODate(timeWindow.to)}`;
+    }
     
     return searchQuery;
   }
   
-  private filterResults(issues: GitHubIssue[], problemType?: ProblemType): GitHubIssue[] {
+  private filterResults(issues: GitHubIssue[], problemTypes: ProblemTypeDistribution, timeWindow?: ResolvedTimeWindow, stats?: FilterStats): GitHubIssue[] {
+    const thresholds = blendThresholds(filters.github.qualityThresholds, problemTypes);
+
     return issues.filter(issue => {
       // Filter out bot-created issues by title patterns
       const titleFilters = filters.github.excludePatterns.titlePatterns;
       for (const pattern of titleFilters) {
         if (new RegExp(pattern).test(issue.title)) {
+          stats?.removed('titlePattern');
           return false;
         }
       }
       
       // Apply quality thresholds
-      const thresholds = problemType ? 
-        filters.github.qualityThresholds[problemType] || filters.github.qualityThresholds :
-        filters.github.qualityThresholds;
-      
       if (issue.comments < (thresholds.minComments || 1)) {
+        stats?.removed('minComments');
         return false;
       }
       
       if ((issue.reactions?.total_count || 0) < (thresholds.minReactions || 0)) {
+        stats?.removed('minReactions');
         return false;
       }
       
-      // Filter out very old issues for certain problem types
-      if (problemType === ProblemType.BUG_REPORT || problemType === ProblemType.COMPATIBILITY) {
+      // Filter out very old issues for certain problem types, unless the caller chose a window
+      if (!timeWindow && shareOf(problemTypes, ProblemType.BUG_REPORT, ProblemType.COMPATIBILITY) >= MAJORITY_SHARE) {
         const daysSinceUpdate = (Date.now() - new Date(issue.updated_at).getTime()) / (1000 * 60 * 60 * 24);
         if (daysSinceUpdate > 365) {
+          stats?.removed('maxAge');
           return false;
         }
       }
@@ -180,40 +278,175 @@ export class GitHubRestAdapter {
     });
   }
 
-  private normalizeResults(issues: GitHubIssue[], repoCache: Map<string, GitHubRepo>, problemType?: ProblemType): NormalizedResult[] {
+  private normalizeResults(
+    issues: GitHubIssue[],
+    repoCache: Map<string, GitHubRepo>,
+    timelineCache: Map<number, GitHubTimelineEvent[]>,
+    problemTypes: ProblemTypeDistribution,
+    includeTopComments = false
+  ): NormalizedResult[] {
     return issues.map(issue => {
       const repo = repoCache.get(issue.repository_url);
-      const content = this.buildContent(issue, repo);
+      const timeline = timelineCache.get(issue.id) || [];
+      const resolution = this.resolveIssue(issue, timeline);
+      const content = this.buildContent(issue, timeline, resolution, repo, includeTopComments);
       const codeSnippets = this.extractCodeSnippets(content);
-      const version = this.extractVersion(issue.title, issue.labels || []);
 
       return {
         title: issue.title,
         url: issue.html_url,
         source: 'github' as const,
         author: issue.user?.login || 'Unknown',
+        authority: githubAuthority(issue.author_association, filters.github.maintainerAssociations),
         createdAt: new Date(issue.created_at),
         updatedAt: new Date(issue.updated_at),
-        score: this.calculateScore(issue, repo, problemType),
+        score: this.calculateScore(issue, resolution, repo, problemTypes),
         content,
         codeSnippets,
         tags: issue.labels?.map(label => label.name) || [],
-        version,
-        isAccepted: issue.state === 'closed',
+        isAccepted: ['fixed', 'workaround', 'answered'].includes(resolution.status),
         voteCount: issue.reactions?.total_count || 0,
+        resolution,
       };
     });
   }
 
-  private buildContent(issue: GitHubIssue, repo?: GitHubRepo): string {
+  private resolveIssue(issue: GitHubIssue, timeline: GitHubTimelineEvent[]): IssueResolution {
+    const comments = this.getComments(timeline);
+    const maintainerComments = comments.filter(comment => this.isMaintainer(comment));
+    const hasWorkaround = this.getWorkaroundComments(comments).length > 0;
+    const closedBy = issue.state === 'closed' ? this.findClosingChange(timeline) : undefined;
+    const stateReason = issue.state_reason || undefined;
+
+    // "Won't fix" and "duplicate" only count as solved when someone posted a workaround
+    let status: IssueResolution['status'];
+    if (issue.state !== 'closed') {
+      status = hasWorkaround ? 'workaround' : 'open';
+    } else if (stateReason === 'not_planned') {
+      status = hasWorkaround ? 'workaround' : 'wont-fix';
+    } else if (stateReason === 'duplicate') {
+      status = 'duplicate';
+    } else if (closedBy) {
+      status = 'fixed';
+    } else {
+      status = hasWorkaround ? 'workaround' : 'answered';
+    }
+
+    return {
+      status,
+      stateReason,
+      closedBy,
+      maintainerComments: maintainerComments.length,
+      hasWorkaround,
+    };
+  }
+
+  // Only a change that closed the issue counts; PRs and commits that merely mention it do not
+  private findClosingChange(timeline: GitHubTimelineEvent[]): IssueResolution['closedBy'] {
+    const closed = [...timeline].reverse().find(event => event.event === 'closed');
+    if (!closed) {
+      return undefined;
+    }
+
+    const closedAt = closed.created_at ? Date.parse(closed.created_at) : NaN;
+    const closingPullRequest = timeline.find(event => {
+      const mergedAt = event.event === 'cross-referenced' && event.source?.issue?.pull_request?.merged_at;
+      return mergedAt && Math.abs(Date.parse(mergedAt) - closedAt) <= CLOSING_MERGE_WINDOW_MS;
+    });
+    if (closingPullRequest?.source?.issue) {
+      return {
+        type: 'pull_request',
+        url: closingPullRequest.source.issue.html_url,
+        title: closingPullRequest.source.issue.title,
+      };
+    }
+
+    if (closed.commit_url) {
+      return { type: 'commit', url: this.toCommitHtmlUrl(closed.commit_url) };
+    }
+
+    return undefined;
+  }
+
+  private toCommitHtmlUrl(commitUrl: string): string {
+    const match = commitUrl.match(/\/repos\/([^/]+\/[^/]+)\/commits\/(\w+)/);
+    return match ? `https://github.com/${match[1]}/commit/${match[2]}` : commitUrl;
+  }
+
+  private getComments(timeline: GitHubTimelineEvent[]): GitHubTimelineEvent[] {
+    return timeline.filter(event => event.event === 'commented' && event.body);
+  }
+
+  private isMaintainer(comment: GitHubTimelineEvent): boolean {
+    return filters.github.maintainerAssociations.includes(comment.author_association || '');
+  }
+
+  // Comments with code that either come from a maintainer or read like a workaround
+  private getWorkaroundComments(comments: GitHubTimelineEvent[]): GitHubTimelineEvent[] {
+    const patterns: RegExp[] = filters.github.workaroundPatterns.map((pattern: string) => new RegExp(pattern, 'i'));
+
+    return comments.filter(comment => {
+      const body = comment.body || '';
+      if (!/```[\s\S]*?```/.test(body)) {
+        return false;
+      }
+      return this.isMaintainer(comment) || patterns.some(pattern => pattern.test(body));
+    });
+  }
+
+  private buildContent(
+    issue: GitHubIssue,
+    timeline: GitHubTimelineEvent[],
+    resolution: IssueResolution,
+    repo?: GitHubRepo,
+    includeTopComments = false
+  ): string {
     let content = '';
 
     if (repo) {
-      content += `Repository: ${repo.full_name} (⭐ ${repo.stargazers_count})\n\n`;
+      content += `Repository: ${repo.full_name} (⭐ ${repo.stargazers_count})\n`;
+    }
+
+    content += `Resolution: ${resolution.status}`;
+    if (resolution.closedBy) {
+      const label = resolution.closedBy.type === 'pull_request' ? 'pull request' : 'commit';
+      content += ` via ${label} ${resolution.closedBy.url}`;
+      if (resolution.closedBy.title) {
+        content += ` (${resolution.closedBy.title})`;
+      }
     }
+    content += '\n\n';
 
     content += issue.body || 'No description provided.';
 
+    const comments = this.getComments(timeline);
+    const byReactions = (a: GitHubTimelineEvent, b: GitHubTimelineEvent) =>
+      (b.reactions?.total_count || 0) - (a.reactions?.total_count || 0);
+
+    const sections: Array<{ label: string; comment: GitHubTimelineEvent }> = [];
+    const included = new Set<GitHubTimelineEvent>();
+    const addSection = (label: string, comment: GitHubTimelineEvent) => {
+      if (!included.has(comment)) {
+        included.add(comment);
+        sections.push({ label, comment });
+      }
+    };
+
+    this.getWorkaroundComments(comments).sort(byReactions).slice(0, 2)
+      .forEach(comment => addSection('WORKAROUND', comment));
+    comments.filter(comment => this.isMaintainer(comment)).sort(byReactions).slice(0, 3)
+      .forEach(comment => addSection(`MAINTAINER COMMENT (${comment.author_association})`, comment));
+
+    // Thorough mode also keeps the most-reacted comments from everyone else
+    if (includeTopComments) {
+      [...comments].sort(byReactions).slice(0, 3)
+        .forEach(comment => addSection('COMMENT', comment));
+    }
+
+    sections.forEach(({ label, comment }) => {
+      content += `\n\n--- ${label} by ${comment.user?.login || 'ghost'} ---\n\n${comment.body}`;
+    });
+
     return content;
   }
 
@@ -232,24 +465,8 @@ export class GitHubRestAdapter {
     return snippets;
   }
 
-  private extractVersion(title: string, labels: Array<{ name: string }>): string | undefined {
-    // Try to extract version from title
-    const versionRegex = /v?(\d+\.\d+(?:\.\d+)?)/i;
-    const titleMatch = title.match(versionRegex);
-    if (titleMatch) {
-      return titleMatch[1];
-    }
-
-    // Try to find version in labels
-    const versionLabel = labels.find(label => 
-      label.name.match(/^v?\d+\.\d+/) || 
-      label.name.includes('version')
-    );
-
-    return versionLabel?.name;
-  }
-
-  private calculateScore(issue: GitHubIssue, repo?: GitHubRepo, problemType?: ProblemType): number {
+  // Problem-type bonuses are scaled by each type's share of the query
+  private calculateScore(issue: GitHubIssue, resolution: IssueResolution, repo?: GitHubRepo, problemTypes: ProblemTypeDistribution = {}): number {
     let score = 0;
 
     // Repository quality scoring
@@ -276,41 +493,44 @@ export class GitHubRestAdapter {
       score += Math.min(issue.reactions['+1'] * 3, 15);
     }
 
-    // State-based scoring with problem type awareness
-    if (issue.state === 'closed') {
-      if (problemType === ProblemType.BUG_REPORT) {
-        score += 15; // Closed bugs are likely resolved
-      } else if (problemType === ProblemType.CONFIGURATION) {
-        score += 10; // Closed config issues might have solutions
-      } else {
-        score += 5;
-      }
-    } else {
+    // Resolution-based scoring with problem type awareness
+    if (resolution.status === 'fixed' || resolution.status === 'answered' || resolution.status === 'workaround') {
+      score += blend(problemTypes, type => {
+        if (type === ProblemType.BUG_REPORT) {
+          return resolution.status === 'fixed' ? 20 : 12; // Closed bugs are likely resolved
+        } else if (type === ProblemType.CONFIGURATION) {
+          return 10; // Closed config issues might have solutions
+        }
+        return undefined;
+      }, 5);
+    } else if (resolution.status === 'open') {
       // Open issues might be more relevant for ongoing problems
-      if (problemType === ProblemType.BUG_REPORT) {
-        score += 5;
-      }
+      score += 5 * shareOf(problemTypes, ProblemType.BUG_REPORT);
     }
 
+    // Maintainers weighing in makes the thread more authoritative
+    score += Math.min(resolution.maintainerComments * 3, 9);
+
     // Recency bonus for certain problem types
     const daysSinceUpdate = (Date.now() - new Date(issue.updated_at).getTime()) / (1000 * 60 * 60 * 24);
-    if (problemType === ProblemType.BUG_REPORT && daysSinceUpdate < 30) {
-      score += 10;
-    } else if (problemType === ProblemType.COMPATIBILITY && daysSinceUpdate < 90) {
-      score += 8;
+    if (daysSinceUpdate < 30) {
+      score += 10 * shareOf(problemTypes, ProblemType.BUG_REPORT);
+    }
+    if (daysSinceUpdate < 90) {
+      score += 8 * shareOf(problemTypes, ProblemType.COMPATIBILITY);
     }
 
     // Label-based scoring
     if (issue.labels) {
       const labelNames = issue.labels.map(l => l.name.toLowerCase());
-      if (labelNames.includes('bug') && problemType === ProblemType.BUG_REPORT) {
-        score += 10;
+      if (labelNames.includes('bug')) {
+        score += 10 * shareOf(problemTypes, ProblemType.BUG_REPORT);
       }
-      if (labelNames.includes('question') && problemType === ProblemType.CONFIGURATION) {
-        score += 8;
+      if (labelNames.includes('question')) {
+        score += 8 * shareOf(problemTypes, ProblemType.CONFIGURATION);
       }
-      if (labelNames.includes('performance') && problemType === ProblemType.PERFORMANCE) {
-        score += 10;
+      if (labelNames.includes('performance')) {
+        score += 10 * shareOf(problemTypes, ProblemType.PERFORMANCE);
       }
     }
 
@@ -0,0 +1,258 @@
+import axios from 'axios';
+import { NormalizedResult, CodeSnippet, ResolvedTimeWindow } from '../types/index.js';
+import { hackerNewsLimiter, scheduleRequest } from '../utils/rateLimiter.js';
+import { handleAPIError } from '../utils/errorHandler.js';
+import { HackerNewsSearchStrategy, ProblemType, ProblemTypeDistribution } from '../core/queryAnalyzer.js';
+import { blendThresholds, distributionFor } from '../core/problemTypes.js';
+import { SearchContext, SourceAdapter } from './registry.js';
+import { toUnixSeconds } from '../utils/timeWindow.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+const BASE_URL = 'https://hn.algolia.com/api/v1';
+
+interface HackerNewsHit {
+  objectID: string;
+  title: string;
+  url: string | null;
+  author: string;
+  points: number;
+  num_comments: number;
+  created_at_i: number;
+  story_text: string | null;
+  _tags: string[];
+}
+
+interface HackerNewsItem {
+  id: number;
+  author: string | null;
+  text: string | null;
+  created_at_i: number;
+  children: HackerNewsItem[];
+}
+
+interface QualityThresholds {
+  minPoints: number;
+  minComments: number;
+  maxAgeMonths: number;
+}
+
+export class HackerNewsAdapter implements SourceAdapter<HackerNewsSearchStrategy> {
+  async search(query: string, maxResults = 5, strategy?: HackerNewsSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
+    try {
+      return await this.performSearch(query, maxResults, strategy, problemType, context);
+    } catch (error) {
+      handleAPIError(error, 'Hacker News');
+      return [];
+    }
+  }
+
+  private async performSearch(query: string, maxResults: number, strategy?: HackerNewsSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
+    const thresholds = this.getThresholds(distributionFor(problemType, context?.problemTypes));
+    const maxPages = context?.profile.maxPages || 1;
+    const limit = context?.profile.fetchDetails ? maxResults * maxPages : maxResults;
+    const tags = strategy?.tags || ['story'];
+
+    const hits: HackerNewsHit[] = [];
+    for (let page = 0; page < maxPages && hits.length < limit; page++) {
+      if (page > 0 && !context?.budget.canSpend()) {
+        break;
+      }
+
+      context?.budget.consume();
+      const response = await this.get(`${BASE_URL}/search`, {
+        query: strategy?.query || query,
+        // Parenthesized tags are OR-ed by Algolia
+        tags: `(${tags.join(',')})`,
+        numericFilters: this.buildNumericFilters(thresholds, context?.timeWindow).join(','),
+        hitsPerPage: Math.min(maxResults * 2, 50),
+        page,
+      }, context);
+
+      // Points, comments and age are filtered by Algolia, so nothing is removed locally
+      hits.push(...(response.data.hits || []));
+      context?.filterStats?.fetched((response.data.hits || []).length);
+
+      if (page + 1 >= (response.data.nbPages || 0)) {
+        break;
+      }
+    }
+
+    const selectedHits = hits.slice(0, limit);
+    console.log(`Hacker News found ${hits.length} results`);
+
+    // Most stories are links; the substance is in the comment threads
+    const threads = await this.fetchThreads(selectedHits, context);
+
+    return selectedHits.map(hit => this.normalizeResult(hit, threads.get(hit.objectID) || []));
+  }
+
+  // Each request is rate limited and retried on its own, and stops when the source runs out of time
+  private get<T = any>(url: string, params: Record<string, unknown>, context?: SearchContext) {
+    const signal = context?.budget.signal;
+    return scheduleRequest(hackerNewsLimiter, () => axios.get<T>(url, { params, signal }), signal);
+  }
+
+  private getThresholds(problemTypes: ProblemTypeDistribution): QualityThresholds {
+    const thresholds = blendThresholds(filters.hackernews.qualityThresholds, problemTypes);
+
+    return {
+      minPoints: thresholds.minPoints,
+      minComments: thresholds.minComments,
+      maxAgeMonths: thresholds.maxAgeMonths,
+    };
+  }
+
+  private buildNumericFilters(thresholds: QualityThresholds, timeWindow?: ResolvedTimeWindow): string[] {
+    const numericFilters = [
+      `points>=${thresholds.minPoints}`,
+      `num_comments>=${thresholds.minComments}`,
+    ];
+
+    // An explicit time window replaces the default maximum age
+    if (timeWindow) {
+      if (timeWindow.from) {
+        numericFilters.push(`created_at_i>=${toUnixSeconds(timeWindow.from)}`);
+      }
+      if (timeWindow.to) {
+        numericFilters.push(`created_at_i<=${toUnixSeconds(timeWindow.to)}`);
+      }
+    } else {
+      const maxAgeSeconds = thresholds.maxAgeMonths * 30 * 24 * 60 * 60;
+      numericFilters.push(`created_at_i>=${Math.floor(Date.now() / 1000 - maxAgeSeconds)}`);
+    }
+
+    return numericFilters;
+  }
+
+  private async fetchThreads(hits: HackerNewsHit[], context?: SearchContext): Promise<Map<string, HackerNewsItem[]>> {
+    const threads = new Map<string, HackerNewsItem[]>();
+
+    for (const hit of hits) {
+      if (hit.num_comments === 0 || (context && !context.budget.canSpend())) {
+        continue;
+      }
+
+      try {
+        context?.budget.consume();
+        const response = await this.get<HackerNewsItem>(`${BASE_URL}/items/${hit.objectID}`, {}, context);
+        threads.set(hit.objectID, this.selectTopLevelComments(response.data.children || []));
+      } catch (error) {
+        console.error('Failed to fetch Hacker News thread:', error);
+      }
+    }
+
+    return threads;
+  }
+
+  // HN exposes no comment scores, so the size of each reply tree stands in for them
+  private selectTopLevelComments(comments: HackerNewsItem[]): HackerNewsItem[] {
+    const minLength = filters.hackernews.minCommentLength;
+
+    return comments
+      .filter(comment => comment.text && comment.author && comment.text.length >= minLength)
+      .map(comment => ({ comment, replies: this.countReplies(comment) }))
+      .sort((a, b) => b.replies - a.replies)
+      .slice(0, filters.hackernews.maxTopLevelComments)
+      .map(({ comment }) => comment);
+  }
+
+  private countReplies(item: HackerNewsItem): number {
+    return (item.children || []).reduce((count, child) => count + 1 + this.countReplies(child), 0);
+  }
+
+  private normalizeResult(hit: HackerNewsHit, comments: HackerNewsItem[]): NormalizedResult {
+    const content = this.buildContent(hit, comments);
+    const codeSnippets = this.extractCodeSnippets(content);
+
+    return {
+      title: hit.title,
+      url: `https://news.ycombinator.com/item?id=${hit.objectID}`,
+      source: 'hackernews',
+      author: hit.author,
+      createdAt: new Date(hit.created_at_i * 1000),
+      score: this.calculateScore(hit),
+      content,
+      codeSnippets,
+      tags: (hit._tags || []).filter(tag => ['ask_hn', 'show_hn'].includes(tag)),
+      voteCount: hit.points,
+      isAccepted: false, // HN has no notion of an accepted answer
+    };
+  }
+
+  private buildContent(hit: HackerNewsHit, comments: HackerNewsItem[]): string {
+    let content = `Points: ${hit.points} | Comments: ${hit.num_comments}\n`;
+
+    if (hit.url) {
+      content += `Link: ${hit.url}\n`;
+    }
+    content += '\n';
+
+    if (hit.story_text) {
+      content += this.stripHtml(hit.story_text);
+    }
+
+    comments.forEach(comment => {
+      content += `\n\n--- COMMENT by ${comment.author} ---\n\n${this.stripHtml(comment.text || '')}`;
+    });
+
+    return content;
+  }
+
+  private extractCodeSnippets(content: string): CodeSnippet[] {
+    const snippets: CodeSnippet[] = [];
+    const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
+
+    let match;
+    while ((match = codeBlockRegex.exec(content)) !== null) {
+      const code = match[2].trim();
+      if (code.length > 10) {
+        snippets.push({
+          language: match[1] || 'plaintext',
+          code,
+        });
+      }
+    }
+
+    return snippets;
+  }
+
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<pre><code>/g, '```\n')
+      .replace(/<\/code><\/pre>/g, '\n```')
+      .replace(/<p>/g, '\n\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#x27;/g, "'")
+      .replace(/&#x2F;/g, '/')
+      .replace(/&amp;/g, '&')
+      .replace(/\n\s*\n\s*\n/g, '\n\n')
+      .trim();
+  }
+
+  private calculateScore(hit: HackerNewsHit): number {
+    let score = 0;
+
+    // Points and discussion size, both capped
+    score += Math.min(hit.points / 5, 60);
+    score += Math.min(hit.num_comments / 4, 40);
+
+    // Ask HN threads are questions answered in the comments
+    if (hit._tags?.includes('ask_hn')) {
+      score += 10;
+    }
+
+    return Math.round(score);
+  }
+}
@@ -0,0 +1,43 @@
+import { sourceRegistry } from './registry.js';
+import { StackOverflowAdapter } from './stackoverflow.js';
+import { GitHubRestAdapter } from './github-rest.js';
+import { GitHubDiscussionsAdapter } from './github-discussions.js';
+import { RedditAdapter } from './reddit.js';
+import { HackerNewsAdapter } from './hackernews.js';
+
+// Built-in sources. Internal sources register here (or call sourceRegistry.register
+// before the server starts) and are picked up by the tool schema, analyzer and ranker.
+sourceRegistry.register({
+  id: 'stackoverflow',
+  displayName: 'Stack Overflow',
+  createAdapter: () => new StackOverflowAdapter(),
+});
+
+sourceRegistry.register({
+  id: 'github',
+  displayName: 'GitHub',
+  createAdapter: () => new GitHubRestAdapter(),
+});
+
+sourceRegistry.register({
+  id: 'github-discussions',
+  displayName: 'GitHub Discussions',
+  // GraphQL search needs a token, so only search it by default when one is set
+  enabledByDefault: () => !!process.env.GITHUB_TOKEN,
+  createAdapter: () => new GitHubDiscussionsAdapter(),
+});
+
+sourceRegistry.register({
+  id: 'reddit',
+  displayName: 'Reddit',
+  createAdapter: () => new RedditAdapter(),
+});
+
+sourceRegistry.register({
+  id: 'hackernews',
+  displayName: 'Hacker News',
+  createAdapter: () => new HackerNewsAdapter(),
+});
+
+export { sourceRegistry };
+export type { SearchContext, SourceAdapter, SourceRegistration } from './registry.js';
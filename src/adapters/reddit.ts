@@ -1,7 +1,12 @@
 import axios from 'axios';
-import { NormalizedResult, CodeSnippet } from '../types/index.js';
-import { redditLimiter, withRetry } from '../utils/rateLimiter.js';
+import { NormalizedResult, CodeSnippet, ResolvedTimeWindow } from '../types/index.js';
+import { redditLimiter, scheduleRequest } from '../utils/rateLimiter.js';
 import { RedditSearchStrategy, ProblemType } from '../core/queryAnalyzer.js';
+import { blendThresholds, distributionFor } from '../core/problemTypes.js';
+import { SearchContext, SourceAdapter } from './registry.js';
+import { isWithinTimeWindow } from '../utils/timeWindow.js';
+import { FilterStats } from '../utils/filterStats.js';
+import { taxonomy } from '../core/taxonomy.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
@@ -33,10 +38,37 @@ interface RedditPost {
   subreddit: string;
   subreddit_name_prefixed: string;
   link_flair_text: string | null;
+  // "moderator" or "admin" when posted in that capacity
+  distinguished: string | null;
   over_18: boolean;
   is_self: boolean;
 }
 
+interface RedditComment {
+  id: string;
+  author: string;
+  body: string;
+  score: number;
+  stickied: boolean;
+  is_submitter: boolean;
+  replies: RedditCommentListing | '';
+}
+
+interface RedditCommentListing {
+  kind: string;
+  data: {
+    children: Array<{
+      kind: string;
+      data: RedditComment;
+    }>;
+  };
+}
+
+interface SelectedComment {
+  comment: RedditComment;
+  acknowledgedByOp: boolean;
+}
+
 interface RedditResponse {
   kind: string;
   data: {
@@ -49,77 +81,92 @@ interface RedditResponse {
   };
 }
 
-export class RedditAdapter {
+export class RedditAdapter implements SourceAdapter<RedditSearchStrategy> {
   private userAgent: string;
 
   constructor() {
     this.userAgent = process.env.REDDIT_USER_AGENT || 'DevScope-MCP-Server/1.0';
   }
 
-  async search(query: string, maxResults = 5, strategy?: RedditSearchStrategy, problemType?: ProblemType): Promise<NormalizedResult[]> {
+  async search(query: string, maxResults = 5, strategy?: RedditSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
     try {
-      return await redditLimiter.schedule(() =>
-        withRetry(() => this.performSearch(query, maxResults, strategy, problemType))
-      );
+      return await this.performSearch(query, maxResults, strategy, problemType, context);
     } catch (error) {
       console.error('Reddit search error:', error);
       return [];
     }
   }
 
-  private async performSearch(query: string, maxResults: number, strategy?: RedditSearchStrategy, problemType?: ProblemType): Promise<NormalizedResult[]> {
+  private async performSearch(query: string, maxResults: number, strategy?: RedditSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
     // Select relevant subreddits based on strategy or fallback to query analysis
     const subreddits = strategy?.subreddits || this.selectSubreddits(query);
     console.log(`Searching Reddit in subreddits: ${subreddits.join(', ')}`);
 
-    const allResults: NormalizedResult[] = [];
+    const acceptedPosts: RedditPost[] = [];
+    const maxPages = context?.profile.maxPages || 1;
+    const limit = context?.profile.fetchDetails ? maxResults * maxPages : maxResults;
+    const thresholds = blendThresholds(filters.reddit.qualityThresholds, distributionFor(problemType, context?.problemTypes));
 
     try {
       // Search in combined subreddits using public JSON API
       const subredditString = subreddits.join('+');
       const searchUrl = `https://www.reddit.com/r/${subredditString}/search.json`;
-      
-      const response = await axios.get<RedditResponse>(searchUrl, {
-        params: {
+      let after: string | null = null;
+
+      for (let page = 1; page <= maxPages && acceptedPosts.length < limit; page++) {
+        if (page > 1 && (!after || !context?.budget.canSpend())) {
+          break;
+        }
+
+        context?.budget.consume();
+        const response: { data: RedditResponse } = await this.get<RedditResponse>(searchUrl, {
           q: query,
           restrict_sr: 'on', // Restrict to these subreddits
           sort: 'relevance',
-          t: 'year', // Time window
+          t: this.getTimeBucket(context?.timeWindow), // Time window
           limit: Math.min(maxResults * 2, 25), // Get more to filter
-        },
-        headers: {
-          'User-Agent': this.userAgent,
-        },
-      });
+          after: after || undefined,
+        }, context);
 
-      if (response.data && response.data.data && response.data.data.children) {
+        if (!response.data || !response.data.data || !response.data.data.children) {
+          break;
+        }
+
+        context?.filterStats?.fetched(response.data.data.children.length);
         for (const child of response.data.data.children) {
           const post = child.data;
           
+          // Reddit only has coarse buckets, so enforce the exact window here
+          if (!isWithinTimeWindow(new Date(post.created_utc * 1000), context?.timeWindow)) {
+            context?.filterStats?.removed('timeWindow');
+            continue;
+          }
+
           // Apply enhanced quality filters
-          if (!this.passesQualityFilters(post, strategy, problemType)) {
+          if (!this.passesQualityFilters(post, thresholds, strategy, context?.timeWindow, context?.filterStats)) {
             continue;
           }
           
           // Apply flair filtering
           if (!this.passesFlairFilters(post, strategy)) {
+            context?.filterStats?.removed('flair');
             continue;
           }
           
           // Apply title filtering
           if (!this.passesTitleFilters(post)) {
+            context?.filterStats?.removed('titlePattern');
             continue;
           }
 
-          const normalized = this.normalizeResult(post);
-          if (normalized) {
-            allResults.push(normalized);
-          }
+          acceptedPosts.push(post);
 
-          if (allResults.length >= maxResults) {
+          if (acceptedPosts.length >= limit) {
             break;
           }
         }
+
+        after = response.data.data.after;
       }
     } catch (error) {
       console.error('Error searching Reddit:', error);
@@ -130,30 +177,131 @@ export class RedditAdapter {
       throw error;
     }
 
+    // The answer to a Reddit question is almost always in the comments
+    const commentCache = await this.fetchComments(acceptedPosts, context);
+
+    const allResults: NormalizedResult[] = [];
+    for (const post of acceptedPosts) {
+      const normalized = this.normalizeResult(post, commentCache.get(post.id));
+      if (normalized) {
+        allResults.push(normalized);
+      }
+    }
+
     console.log(`Reddit search returned ${allResults.length} quality results`);
     return allResults;
   }
 
+  // Each request is rate limited and retried on its own, and stops when the source runs out of time
+  private get<T = any>(url: string, params: Record<string, unknown>, context?: SearchContext) {
+    const signal = context?.budget.signal;
+    return scheduleRequest(
+      redditLimiter,
+      () => axios.get<T>(url, { params, headers: { 'User-Agent': this.userAgent }, signal }),
+      signal
+    );
+  }
+
+  private async fetchComments(posts: RedditPost[], context?: SearchContext): Promise<Map<string, SelectedComment[]>> {
+    const commentCache = new Map<string, SelectedComment[]>();
+    const commentConfig = filters.reddit.comments;
+    const maxComments = commentConfig.maxComments[context?.depth || 'quick'];
+
+    for (const post of posts) {
+      if (post.num_comments === 0 || (context && !context.budget.canSpend())) {
+        continue;
+      }
+
+      try {
+        context?.budget.consume();
+        const response = await this.get(`https://www.reddit.com/comments/${post.id}.json`, {
+          sort: 'top',
+          limit: commentConfig.fetchLimit,
+          depth: commentConfig.fetchDepth,
+        }, context);
+
+        // The second listing holds the comment tree
+        const listing: RedditCommentListing | undefined = response.data?.[1];
+        commentCache.set(post.id, this.selectComments(listing, maxComments));
+      } catch (error) {
+        console.error('Failed to fetch Reddit comments:', error);
+      }
+    }
+
+    return commentCache;
+  }
+
+  // OP-acknowledged comments first, then the top-scored ones
+  private selectComments(listing: RedditCommentListing | undefined, maxComments: number): SelectedComment[] {
+    const commentConfig = filters.reddit.comments;
+    const candidates = this.getComments(listing)
+      .filter(comment => !comment.stickied && !comment.is_submitter && comment.author !== 'AutoModerator')
+      .map(comment => ({ comment, acknowledgedByOp: this.isAcknowledgedByOp(comment) }));
+
+    const acknowledged = candidates.filter(candidate => candidate.acknowledgedByOp);
+    const topScored = candidates
+      .filter(candidate => !candidate.acknowledgedByOp && candidate.comment.score >= commentConfig.minScore)
+      .sort((a, b) => b.comment.score - a.comment.score);
+
+    return [...acknowledged, ...topScored].slice(0, Math.max(maxComments, acknowledged.length));
+  }
+
+  private getComments(listing: RedditCommentListing | '' | undefined): RedditComment[] {
+    if (!listing || !listing.data) {
+      return [];
+    }
+
+    // "more" stubs carry no body and would cost another request each
+    return listing.data.children
+      .filter(child => child.kind === 't1' && child.data.body && child.data.body !== '[deleted]')
+      .map(child => child.data);
+  }
+
+  private isAcknowledgedByOp(comment: RedditComment): boolean {
+    const patterns: string[] = filters.reddit.comments.acknowledgementPatterns;
+
+    return this.getComments(comment.replies).some(reply =>
+      reply.is_submitter && patterns.some(pattern => new RegExp(pattern, 'i').test(reply.body))
+    );
+  }
+
+  // Smallest `t=` bucket that still covers the start of the window
+  private getTimeBucket(timeWindow?: ResolvedTimeWindow): string {
+    if (!timeWindow) {
+      return subredditConfig.searchSettings.defaultTimeWindow || 'year';
+    }
+
+    if (!timeWindow.from) {
+      return 'all';
+    }
+
+    const ageHours = (Date.now() - timeWindow.from.getTime()) / (1000 * 60 * 60);
+    if (ageHours <= 1) return 'hour';
+    if (ageHours <= 24) return 'day';
+    if (ageHours <= 24 * 7) return 'week';
+    if (ageHours <= 24 * 31) return 'month';
+    if (ageHours <= 24 * 365) return 'year';
+    return 'all';
+  }
+
   private selectSubreddits(query: string): string[] {
-    const queryLower = query.toLowerCase();
     const selectedSubreddits = new Set<string>();
 
     // Prioritize tier 1 subreddits for better quality
     const tier1Subs = filters.reddit.subredditQuality.tier1;
     
-    // Check tech mappings with quality prioritization
-    for (const [tech, subs] of Object.entries(subredditConfig.techMapping)) {
-      if (queryLower.includes(tech.toLowerCase())) {
-        // Prioritize tier 1 subreddits from tech mapping
-        (subs as string[]).forEach(sub => {
-          if (tier1Subs.includes(sub)) {
-            selectedSubreddits.add(sub);
-          }
-        });
-        // Add other tech-specific subreddits if we have room
-        if (selectedSubreddits.size < 3) {
-          (subs as string[]).forEach(sub => selectedSubreddits.add(sub));
+    // Check technology subreddits with quality prioritization
+    for (const tech of taxonomy.detect(query)) {
+      const subs = taxonomy.subreddits([tech]);
+      // Prioritize tier 1 subreddits for the technology
+      subs.forEach(sub => {
+        if (tier1Subs.includes(sub)) {
+          selectedSubreddits.add(sub);
         }
+      });
+      // Add other tech-specific subreddits if we have room
+      if (selectedSubreddits.size < 3) {
+        subs.forEach(sub => selectedSubreddits.add(sub));
       }
     }
 
@@ -174,52 +322,41 @@ export class RedditAdapter {
     return Array.from(selectedSubreddits).slice(0, maxSubs);
   }
 
-  private passesQualityFilters(post: RedditPost, strategy?: RedditSearchStrategy, problemType?: ProblemType): boolean {
+  // Thresholds are blended across the query's problem types
+  private passesQualityFilters(post: RedditPost, thresholds: Record<string, any>, strategy?: RedditSearchStrategy, timeWindow?: ResolvedTimeWindow, stats?: FilterStats): boolean {
     // Skip NSFW content
     if (post.over_18) {
+      stats?.removed('nsfw');
       return false;
     }
 
-    // Get problem-type specific thresholds or defaults
-    const baseThresholds = filters.reddit.qualityThresholds;
-    const problemThresholds = problemType ? 
-      baseThresholds[problemType] || baseThresholds :
-      baseThresholds;
-
     // Check minimum score
-    const minScore = strategy?.minEngagement || problemThresholds.minScore || baseThresholds.minScore;
+    const minScore = strategy?.minEngagement || thresholds.minScore;
     if (post.score < minScore) {
+      stats?.removed('minScore');
       return false;
     }
 
     // Check minimum comments for discussion
-    const minComments = problemThresholds.minComments || baseThresholds.minComments;
-    if (post.num_comments < minComments) {
+    if (post.num_comments < thresholds.minComments) {
+      stats?.removed('minComments');
       return false;
     }
 
     // Check upvote ratio (may not always be available)
-    const minUpvoteRatio = problemThresholds.minUpvoteRatio || baseThresholds.minUpvoteRatio;
-    if (post.upvote_ratio && post.upvote_ratio < minUpvoteRatio) {
+    if (post.upvote_ratio && post.upvote_ratio < thresholds.minUpvoteRatio) {
+      stats?.removed('minUpvoteRatio');
       return false;
     }
 
-    // Check age (convert months to seconds)
-    const maxAgeMonths = problemThresholds.maxAgeMonths || baseThresholds.maxAgeMonths;
-    const maxAgeSeconds = maxAgeMonths * 30 * 24 * 60 * 60;
+    // Check age (convert months to seconds); an explicit time window replaces this
+    const maxAgeSeconds = thresholds.maxAgeMonths * 30 * 24 * 60 * 60;
     const postAge = Date.now() / 1000 - post.created_utc;
-    if (postAge > maxAgeSeconds) {
+    if (!timeWindow && postAge > maxAgeSeconds) {
+      stats?.removed('maxAge');
       return false;
     }
 
-    // Additional quality checks for specific problem types
-    if (problemType === ProblemType.BEST_PRACTICE) {
-      // Best practice discussions should have higher engagement
-      if (post.score < 15 || post.num_comments < 8) {
-        return false;
-      }
-    }
-
     return true;
   }
 
@@ -249,9 +386,9 @@ export class RedditAdapter {
     });
   }
 
-  private normalizeResult(post: RedditPost): NormalizedResult | null {
+  private normalizeResult(post: RedditPost, comments?: SelectedComment[]): NormalizedResult | null {
     try {
-      const content = this.buildContent(post);
+      const content = this.buildContent(post, comments);
       const codeSnippets = this.extractCodeSnippets(content);
 
       return {
@@ -259,6 +396,7 @@ export class RedditAdapter {
         url: `https://reddit.com${post.permalink}`,
         source: 'reddit' as const,
         author: post.author || 'deleted',
+        authority: post.distinguished ? { role: 'moderator', signal: post.distinguished } : undefined,
         createdAt: new Date(post.created_utc * 1000),
         updatedAt: post.edited && typeof post.edited === 'number' 
           ? new Date(post.edited * 1000)
@@ -270,7 +408,7 @@ export class RedditAdapter {
         subreddit: post.subreddit,
         upvoteRatio: post.upvote_ratio,
         voteCount: post.score,
-        isAccepted: this.isHighQualityPost(post), // Enhanced quality indicator
+        isAccepted: this.isSolved(post, comments || []),
       };
     } catch (error) {
       console.error('Error normalizing Reddit post:', error);
@@ -278,7 +416,7 @@ export class RedditAdapter {
     }
   }
 
-  private buildContent(post: RedditPost): string {
+  private buildContent(post: RedditPost, comments?: SelectedComment[]): string {
     let content = '';
 
     // Add subreddit context
@@ -301,6 +439,11 @@ export class RedditAdapter {
       }
     }
 
+    (comments || []).forEach(({ comment, acknowledgedByOp }) => {
+      const label = acknowledgedByOp ? 'CONFIRMED BY OP' : 'COMMENT';
+      content += `\n\n--- ${label}: u/${comment.author} (${comment.score} points) ---\n\n${comment.body}`;
+    });
+
     return content;
   }
 
@@ -351,15 +494,8 @@ export class RedditAdapter {
       tags.push(post.link_flair_text.toLowerCase());
     }
 
-    // Extract technology keywords from title
-    const techKeywords = Object.keys(subredditConfig.techMapping);
-    const titleLower = post.title.toLowerCase();
-    
-    for (const tech of techKeywords) {
-      if (titleLower.includes(tech.toLowerCase())) {
-        tags.push(tech);
-      }
-    }
+    // Extract technologies from title
+    tags.push(...taxonomy.detect(post.title));
 
     return [...new Set(tags)]; // Remove duplicates
   }
@@ -388,14 +524,20 @@ export class RedditAdapter {
     return Math.round(score);
   }
 
-  private isHighQualityPost(post: RedditPost): boolean {
-    // Multiple criteria for high quality posts
-    const hasHighScore = post.score > 50;
-    const hasGoodRatio = post.upvote_ratio > 0.9;
-    const hasGoodEngagement = post.num_comments > 10;
-    const hasModerateScore = post.score > 20 && post.upvote_ratio > 0.8;
-    
-    return (hasHighScore && hasGoodRatio) || 
-           (hasGoodEngagement && hasModerateScore);
+  private isSolved(post: RedditPost, comments: SelectedComment[]): boolean {
+    const commentConfig = filters.reddit.comments;
+
+    // OP said a comment worked, which is as close to an accepted answer as Reddit gets
+    if (comments.some(({ acknowledgedByOp }) => acknowledgedByOp)) {
+      return true;
+    }
+
+    const flair = post.link_flair_text?.toLowerCase() || '';
+    if (commentConfig.solvedFlairs.some((solved: string) => flair.includes(solved))) {
+      return true;
+    }
+
+    // Otherwise a clear community favourite
+    return comments.some(({ comment }) => comment.score >= commentConfig.acceptedScore);
   }
-}
\ No newline at end of file
+}
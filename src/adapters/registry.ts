@@ -0,0 +1,99 @@
+import { NormalizedResult, ResolvedTimeWindow, SearchDepth, SourceId } from '../types/index.js';
+import type { ProblemType, ProblemTypeDistribution, StrategyContext } from '../core/queryAnalyzer.js';
+import type { DepthProfile, RequestBudget } from '../utils/requestBudget.js';
+import type { FilterStats } from '../utils/filterStats.js';
+
+// Per-call search settings shared by every request an adapter makes for one source
+export interface SearchContext {
+  depth: SearchDepth;
+  profile: DepthProfile;
+  budget: RequestBudget;
+  timeWindow?: ResolvedTimeWindow;
+  // Share of each problem type; adapters blend their thresholds across it
+  problemTypes?: ProblemTypeDistribution;
+  // Adapters report raw item counts and what their filters removed here
+  filterStats?: FilterStats;
+}
+
+export interface SourceAdapter<TStrategy = unknown> {
+  search(
+    query: string,
+    maxResults?: number,
+    strategy?: TStrategy,
+    problemType?: ProblemType,
+    context?: SearchContext
+  ): Promise<NormalizedResult[]>;
+}
+
+export interface SourceRegistration<TStrategy = unknown> {
+  id: SourceId;
+  displayName: string;
+  // Searched when the caller does not pass an explicit source list; a function is
+  // evaluated on each call so it can depend on environment variables
+  enabledByDefault?: boolean | (() => boolean);
+  // Used by the ranker when filters.json has no sourceWeights entry for this source
+  sourceWeights?: Partial<Record<ProblemType, number>>;
+  createAdapter: () => SourceAdapter<TStrategy>;
+  // Optional per-source strategy; QueryAnalyzer falls back to its built-in strategies
+  buildStrategy?: (context: StrategyContext) => TStrategy;
+}
+
+export class SourceRegistry {
+  private registrations: Map<SourceId, SourceRegistration>;
+  private adapters: Map<SourceId, SourceAdapter>;
+
+  constructor() {
+    this.registrations = new Map();
+    this.adapters = new Map();
+  }
+
+  register<TStrategy>(registration: SourceRegistration<TStrategy>): void {
+    if (this.registrations.has(registration.id)) {
+      throw new Error(`Source "${registration.id}" is already registered`);
+    }
+
+    this.registrations.set(registration.id, registration as SourceRegistration);
+  }
+
+  has(id: SourceId): boolean {
+    return this.registrations.has(id);
+  }
+
+  ids(): SourceId[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  defaultIds(): SourceId[] {
+    return this.list()
+      .filter(registration => typeof registration.enabledByDefault === 'function'
+        ? registration.enabledByDefault()
+        : registration.enabledByDefault !== false)
+      .map(registration => registration.id);
+  }
+
+  list(): SourceRegistration[] {
+    return Array.from(this.registrations.values());
+  }
+
+  getRegistration(id: SourceId): SourceRegistration | undefined {
+    return this.registrations.get(id);
+  }
+
+  // Adapters are created lazily so unused sources never touch their config or env
+  getAdapter(id: SourceId): SourceAdapter {
+    const registration = this.registrations.get(id);
+    if (!registration) {
+      throw new Error(`Unknown source: ${id}`);
+    }
+
+    let adapter = this.adapters.get(id);
+    if (!adapter) {
+      adapter = registration.createAdapter();
+      this.adapters.set(id, adapter);
+    }
+
+    return adapter;
+  }
+}
+
+export const sourceRegistry = new SourceRegistry();
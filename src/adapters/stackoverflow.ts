@@ -1,11 +1,31 @@
 import axios from 'axios';
-import { NormalizedResult, CodeSnippet } from '../types/index.js';
-import { stackOverflowLimiter, withRetry } from '../utils/rateLimiter.js';
+import { AuthorAuthority, NormalizedResult, CodeSnippet } from '../types/index.js';
+import { scheduleRequest, stackOverflowLimiter } from '../utils/rateLimiter.js';
 import { handleAPIError } from '../utils/errorHandler.js';
-import { StackOverflowSearchStrategy, ProblemType } from '../core/queryAnalyzer.js';
+import { StackOverflowSearchStrategy, ProblemType, ProblemTypeDistribution } from '../core/queryAnalyzer.js';
+import { blendThresholds, distributionFor } from '../core/problemTypes.js';
+import { SearchContext, SourceAdapter } from './registry.js';
+import { toUnixSeconds } from '../utils/timeWindow.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
 
 const BASE_URL = 'https://api.stackexchange.com/2.3';
 
+interface StackOverflowOwner {
+  display_name: string;
+  reputation?: number;
+  // "registered", "unregistered", "moderator" or "team_admin"
+  user_type?: string;
+}
+
 interface StackOverflowQuestion {
   question_id: number;
   title: string;
@@ -16,39 +36,58 @@ interface StackOverflowQuestion {
   creation_date: number;
   last_activity_date: number;
   tags: string[];
-  owner: {
-    display_name: string;
-    reputation: number;
-  };
+  owner: StackOverflowOwner;
   accepted_answer_id?: number;
   body?: string;
 }
 
+interface QualityThresholds {
+  minScore: number;
+  minAnswerScore: number;
+  minAnswers: number;
+  requireAccepted?: boolean;
+  preferAccepted?: boolean;
+}
+
 interface StackOverflowAnswer {
   answer_id: number;
   question_id: number;
   score: number;
   is_accepted: boolean;
   creation_date: number;
-  owner: {
-    display_name: string;
-    reputation: number;
-  };
+  last_activity_date?: number;
+  owner: StackOverflowOwner;
   body?: string;
 }
 
-export class StackOverflowAdapter {
+// Query string shared by /search/advanced and the answer endpoints
+interface StackExchangeParams {
+  site: string;
+  filter: string;
+  sort: string;
+  order: 'asc' | 'desc';
+  pagesize: number;
+  key?: string;
+}
+
+interface SearchParams extends StackExchangeParams {
+  q: string;
+  accepted?: 'True';
+  answers?: number;
+  fromdate?: number;
+  todate?: number;
+}
+
+export class StackOverflowAdapter implements SourceAdapter<StackOverflowSearchStrategy> {
   private apiKey?: string;
 
   constructor() {
     this.apiKey = process.env.STACKOVERFLOW_KEY;
   }
 
-  async search(query: string, maxResults = 5, strategy?: StackOverflowSearchStrategy, problemType?: ProblemType): Promise<NormalizedResult[]> {
+  async search(query: string, maxResults = 5, strategy?: StackOverflowSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
     try {
-      return await stackOverflowLimiter.schedule(() =>
-        withRetry(() => this.performSearch(query, maxResults, strategy, problemType))
-      );
+      return await this.performSearch(query, maxResults, strategy, problemType, context);
     } catch (error) {
       console.error('Stack Overflow search error:', error);
       try {
@@ -60,65 +99,227 @@ export class StackOverflowAdapter {
     }
   }
 
-  private async performSearch(query: string, maxResults: number, _strategy?: StackOverflowSearchStrategy, _problemType?: ProblemType): Promise<NormalizedResult[]> {
-    const params: any = {
-      q: query,
+  private async performSearch(query: string, maxResults: number, strategy?: StackOverflowSearchStrategy, problemType?: ProblemType, context?: SearchContext): Promise<NormalizedResult[]> {
+    const thresholds = this.getThresholds(distributionFor(problemType, context?.problemTypes));
+    const sites = strategy?.sites && strategy.sites.length > 0 ? strategy.sites : ['stackoverflow'];
+    const maxPages = context?.profile.maxPages || 1;
+    const limit = context?.profile.fetchDetails ? maxResults * maxPages : maxResults;
+
+    // Admin-first orderings can list Stack Overflow last, so pick it out by name
+    const primary = sites.includes('stackoverflow') ? 'stackoverflow' : sites[0];
+
+    // Keep a search and an answers request for the primary site while earlier sites run
+    let reserved = sites[0] !== primary && context ? 2 : 0;
+    context?.budget.reserve(reserved);
+
+    const results: NormalizedResult[] = [];
+    try {
+      for (const site of sites) {
+        const isPrimary = site === primary;
+        if (isPrimary) {
+          context?.budget.release(reserved);
+          reserved = 0;
+        }
+
+        // Secondary sites need at least a search and an answers request
+        if (!isPrimary && context && !context.budget.canSpend(2)) {
+          continue;
+        }
+
+        try {
+          results.push(...await this.searchSite(site, query, maxResults, thresholds, strategy, context));
+        } catch (error) {
+          // Only the primary site failing should fail the source
+          if (isPrimary) {
+            throw error;
+          }
+          console.error(`Stack Exchange search on ${site} failed:`, error);
+        }
+      }
+    } finally {
+      context?.budget.release(reserved);
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private async searchSite(
+    site: string,
+    query: string,
+    maxResults: number,
+    thresholds: QualityThresholds,
+    strategy?: StackOverflowSearchStrategy,
+    context?: SearchContext
+  ): Promise<NormalizedResult[]> {
+    const params = this.buildSearchParams(site, query, maxResults, thresholds, strategy);
+
+    // Stack Exchange filters on question creation date
+    if (context?.timeWindow?.from) {
+      params.fromdate = toUnixSeconds(context.timeWindow.from);
+    }
+    if (context?.timeWindow?.to) {
+      params.todate = toUnixSeconds(context.timeWindow.to);
+    }
+
+    console.log('Stack Exchange search params:', {
+      site,
+      q: params.q,
+      sort: params.sort,
+      accepted: params.accepted,
+      answers: params.answers,
+      pagesize: params.pagesize,
+      fromdate: params.fromdate,
+      todate: params.todate,
+    });
+    const questions: StackOverflowQuestion[] = [];
+    const maxPages = context?.profile.maxPages || 1;
+
+    // Later pages are only fetched while the request budget allows
+    for (let page = 1; page <= maxPages; page++) {
+      if (page > 1 && !context?.budget.canSpend()) {
+        break;
+      }
+
+      context?.budget.consume();
+      const response = await this.get(`${BASE_URL}/search/advanced`, { ...params, page }, context);
+      questions.push(...(response.data.items || []));
+
+      if (!response.data.has_more) {
+        break;
+      }
+    }
+    console.log(`Stack Exchange (${site}) found ${questions.length} results`);
+    context?.filterStats?.fetched(questions.length);
+
+    // Score is not an /search/advanced filter, so apply it here
+    const limit = context?.profile.fetchDetails ? maxResults * maxPages : maxResults;
+    const scoredQuestions = questions.filter(question => question.score >= thresholds.minScore);
+    context?.filterStats?.removed('minScore', questions.length - scoredQuestions.length);
+    const filteredQuestions = scoredQuestions.slice(0, limit);
+
+    // Answers are ranked individually, so fetch the top ones for every question
+    const answers = await this.fetchAnswers(site, filteredQuestions, context);
+    const answersPerQuestion = filters.stackoverflow.answersPerQuestion[context?.depth || 'quick'];
+
+    // Detected technologies can be wrong ("next steps" is not Next.js), so their tags
+    // boost matching questions instead of filtering the search
+    const detectedTags = site === 'stackoverflow' ? strategy?.tags || [] : [];
+
+    return this.normalizeResults(site, filteredQuestions, answers, thresholds, answersPerQuestion, detectedTags);
+  }
+
+  // Each request is rate limited and retried on its own, and stops when the source runs out of time
+  private get(url: string, params: Record<string, unknown>, context?: SearchContext) {
+    const signal = context?.budget.signal;
+    return scheduleRequest(stackOverflowLimiter, () => axios.get(url, { params, signal }), signal);
+  }
+
+  private getThresholds(problemTypes: ProblemTypeDistribution): QualityThresholds {
+    const thresholds = blendThresholds(filters.stackoverflow.qualityThresholds, problemTypes);
+
+    return {
+      minScore: thresholds.minScore,
+      minAnswerScore: thresholds.minAnswerScore,
+      minAnswers: thresholds.minAnswers,
+      requireAccepted: thresholds.requireAccepted,
+      preferAccepted: thresholds.preferAccepted,
+    };
+  }
+
+  private buildSearchParams(
+    site: string,
+    query: string,
+    maxResults: number,
+    thresholds: QualityThresholds,
+    strategy?: StackOverflowSearchStrategy
+  ): SearchParams {
+    const params: SearchParams = {
+      q: strategy?.query || query,
       order: 'desc',
-      sort: 'relevance',
-      site: 'stackoverflow',
+      sort: strategy?.sortBy || 'relevance',
+      site,
       filter: 'withbody',
-      pagesize: maxResults,
+      pagesize: Math.min(maxResults * 2, 50), // Get more to filter by score
     };
 
     if (this.apiKey) {
       params.key = this.apiKey;
     }
 
-    console.log('Stack Overflow search params:', { q: params.q, pagesize: params.pagesize });
-    const response = await axios.get(`${BASE_URL}/search/advanced`, { params });
-    const questions = response.data.items || [];
-    console.log(`Stack Overflow found ${questions.length} results`);
+    if (thresholds.requireAccepted) {
+      params.accepted = 'True';
+    }
 
-    // Get answers for questions with accepted answers
-    const questionsWithAnswers = await this.fetchAnswersForQuestions(
-      questions.filter((q: StackOverflowQuestion) => q.accepted_answer_id)
-    );
+    const minAnswers = strategy?.requireAnswered ? Math.max(thresholds.minAnswers, 1) : thresholds.minAnswers;
+    if (minAnswers > 0) {
+      params.answers = minAnswers;
+    }
 
-    return this.normalizeResults(questions, questionsWithAnswers);
+    return params;
   }
 
-  private async fetchAnswersForQuestions(
-    questions: StackOverflowQuestion[]
-  ): Promise<Map<number, StackOverflowAnswer>> {
-    if (questions.length === 0) {
-      return new Map();
-    }
-
-    const answerIds = questions
-      .filter(q => q.accepted_answer_id)
-      .map(q => q.accepted_answer_id)
+  private async fetchAnswers(
+    site: string,
+    questions: StackOverflowQuestion[],
+    context?: SearchContext
+  ): Promise<Map<number, StackOverflowAnswer[]>> {
+    const questionIds = questions
+      .filter(q => q.answer_count > 0)
+      .map(q => q.question_id)
       .join(';');
 
-    if (!answerIds) {
+    if (!questionIds || (context && !context.budget.canSpend())) {
       return new Map();
     }
 
     try {
-      const params: any = {
-        site: 'stackoverflow',
+      const params: StackExchangeParams = {
+        site,
         filter: 'withbody',
+        sort: 'votes',
+        order: 'desc',
+        pagesize: 100,
       };
 
       if (this.apiKey) {
         params.key = this.apiKey;
       }
 
-      const response = await axios.get(`${BASE_URL}/answers/${answerIds}`, { params });
-      const answers = response.data.items || [];
+      // Popular questions can fill several pages, so page while the budget allows
+      const answers: StackOverflowAnswer[] = [];
+      for (let page = 1; ; page++) {
+        if (page > 1 && context && !context.budget.canSpend()) {
+          break;
+        }
+
+        context?.budget.consume();
+        const response = await this.get(`${BASE_URL}/questions/${questionIds}/answers`, { ...params, page }, context);
+        answers.push(...(response.data.items || []));
+
+        if (!response.data.has_more) {
+          break;
+        }
+      }
+
+      // Accepted answers with few votes can fall past the last page fetched
+      const fetchedIds = new Set(answers.map(answer => answer.answer_id));
+      const missingAccepted = questions
+        .map(q => q.accepted_answer_id)
+        .filter((id): id is number => id !== undefined && !fetchedIds.has(id));
+      if (missingAccepted.length > 0 && (!context || context.budget.canSpend())) {
+        context?.budget.consume();
+        const response = await this.get(`${BASE_URL}/answers/${missingAccepted.join(';')}`, { ...params, pagesize: missingAccepted.length }, context);
+        answers.push(...(response.data.items || []));
+      }
 
-      const answerMap = new Map<number, StackOverflowAnswer>();
-      answers.forEach((answer: StackOverflowAnswer) => {
-        answerMap.set(answer.answer_id, answer);
+      // Sorted by votes, so each list is best-first apart from late accepted answers
+      const answerMap = new Map<number, StackOverflowAnswer[]>();
+      answers.forEach(answer => {
+        const list = answerMap.get(answer.question_id) || [];
+        list.push(answer);
+        answerMap.set(answer.question_id, list);
       });
 
       return answerMap;
@@ -129,48 +330,146 @@ export class StackOverflowAdapter {
   }
 
   private normalizeResults(
+    site: string,
     questions: StackOverflowQuestion[],
-    answers: Map<number, StackOverflowAnswer>
+    answers: Map<number, StackOverflowAnswer[]>,
+    thresholds: QualityThresholds,
+    answersPerQuestion: number,
+    detectedTags: string[]
   ): NormalizedResult[] {
-    return questions.map(question => {
-      const acceptedAnswer = question.accepted_answer_id
-        ? answers.get(question.accepted_answer_id)
-        : undefined;
+    return questions.flatMap(question => {
+      const topAnswers = (answers.get(question.question_id) || [])
+        .filter(answer => answer.score >= thresholds.minAnswerScore || answer.is_accepted)
+        .slice(0, answersPerQuestion);
+
+      // Keep the accepted answer even when newer answers outvote it
+      const accepted = (answers.get(question.question_id) || []).find(answer => answer.is_accepted);
+      if (accepted && !topAnswers.includes(accepted)) {
+        topAnswers.push(accepted);
+      }
+
+      // Unanswered questions still show that others hit the same problem
+      if (topAnswers.length === 0) {
+        return [this.normalizeQuestion(site, question, thresholds, detectedTags)];
+      }
 
-      const content = this.buildContent(question, acceptedAnswer);
-      const codeSnippets = this.extractCodeSnippets(content);
+      return topAnswers.map(answer => this.normalizeAnswer(site, question, answer, thresholds, detectedTags));
+    });
+  }
+
+  private normalizeQuestion(site: string, question: StackOverflowQuestion, thresholds: QualityThresholds, detectedTags: string[]): NormalizedResult {
+    const content = question.body ? this.stripHtml(question.body) : '';
+
+    return {
+      title: question.title,
+      url: question.link,
+      source: 'stackoverflow' as const,
+      author: question.owner?.display_name || 'Anonymous',
+      authority: this.toAuthority(question.owner),
+      createdAt: new Date(question.creation_date * 1000),
+      updatedAt: new Date(question.last_activity_date * 1000),
+      score: this.calculateScore(question.score, question.tags, false, thresholds, detectedTags),
+      content,
+      codeSnippets: this.extractCodeSnippets(content),
+      tags: question.tags || [],
+      site,
+      isAccepted: false,
+      voteCount: question.score,
+    };
+  }
 
-      return {
+  private normalizeAnswer(
+    site: string,
+    question: StackOverflowQuestion,
+    answer: StackOverflowAnswer,
+    thresholds: QualityThresholds,
+    detectedTags: string[]
+  ): NormalizedResult {
+    const answerBody = answer.body ? this.stripHtml(answer.body) : '';
+    const content = this.buildContent(question, answer, answerBody);
+
+    return {
+      title: question.title,
+      url: `${new URL(question.link).origin}/a/${answer.answer_id}`,
+      source: 'stackoverflow' as const,
+      author: answer.owner?.display_name || 'Anonymous',
+      authority: this.toAuthority(answer.owner),
+      createdAt: new Date(answer.creation_date * 1000),
+      updatedAt: answer.last_activity_date ? new Date(answer.last_activity_date * 1000) : undefined,
+      score: this.calculateScore(answer.score, question.tags, answer.is_accepted, thresholds, detectedTags),
+      content,
+      // Code from the question is the problem, not the fix
+      codeSnippets: this.extractCodeSnippets(answerBody),
+      tags: question.tags || [],
+      site,
+      isAccepted: answer.is_accepted,
+      voteCount: answer.score,
+      parent: {
         title: question.title,
         url: question.link,
-        source: 'stackoverflow' as const,
-        author: question.owner?.display_name || 'Anonymous',
-        createdAt: new Date(question.creation_date * 1000),
-        updatedAt: new Date(question.last_activity_date * 1000),
         score: question.score,
-        content,
-        codeSnippets,
-        tags: question.tags || [],
-        isAccepted: !!acceptedAnswer?.is_accepted,
-        voteCount: question.score + (acceptedAnswer?.score || 0),
-      };
-    });
+      },
+    };
+  }
+
+  // Reputation is site-wide; diamond moderators are marked as such
+  private toAuthority(owner?: StackOverflowOwner): AuthorAuthority | undefined {
+    if (!owner || owner.user_type === 'unregistered' || owner.user_type === 'does_not_exist') {
+      return undefined;
+    }
+
+    return {
+      role: owner.user_type === 'moderator' ? 'moderator' : undefined,
+      reputation: owner.reputation,
+      signal: owner.user_type === 'moderator' ? owner.user_type : undefined,
+    };
+  }
+
+  private calculateScore(
+    votes: number,
+    tags: string[] | undefined,
+    isAccepted: boolean,
+    thresholds: QualityThresholds,
+    detectedTags: string[]
+  ): number {
+    let score = votes;
+
+    // Boost or penalize by configured tag priority
+    const tagPriority = filters.stackoverflow.tagPriority;
+    const tagBoosts = filters.stackoverflow.tagBoosts;
+    for (const level of ['high', 'medium', 'low']) {
+      if ((tags || []).some(tag => tagPriority[level].includes(tag))) {
+        score += tagBoosts[level];
+      }
+    }
+
+    // Questions tagged with a technology the query names
+    if ((tags || []).some(tag => detectedTags.includes(tag))) {
+      score += filters.stackoverflow.detectedTagBoost;
+    }
+
+    if (thresholds.preferAccepted && isAccepted) {
+      score += filters.stackoverflow.acceptedBoost;
+    }
+
+    return score;
   }
 
   private buildContent(
     question: StackOverflowQuestion,
-    answer?: StackOverflowAnswer
+    answer: StackOverflowAnswer,
+    answerBody: string
   ): string {
     let content = '';
 
+    // A short excerpt of the question gives the answer its context
     if (question.body) {
-      content += this.stripHtml(question.body);
+      const questionText = this.stripHtml(question.body).replace(/```[\s\S]*?```/g, '[code]');
+      content += `Question: ${questionText.substring(0, 500)}${questionText.length > 500 ? '...' : ''}`;
     }
 
-    if (answer?.body) {
-      content += '\n\n--- ACCEPTED ANSWER ---\n\n';
-      content += this.stripHtml(answer.body);
-    }
+    content += `\n\n--- ${answer.is_accepted ? 'ACCEPTED ANSWER' : 'ANSWER'} (${answer.score} votes) ---\n\n`;
+    content += answerBody;
 
     return content;
   }
@@ -1,32 +1,61 @@
-import { RankedResult, GatherContextResult, Citation, CodeSnippet } from '../types/index.js';
+import { RankedResult, GatherContextResult, Citation, CodeSnippet, ScoreBreakdown, TechnologyVersion } from '../types/index.js';
+import { ResultClusterer } from './clusterer.js';
+import { ResultDiversifier } from './diversifier.js';
+import { SolutionSummarizer } from './summarizer.js';
+import { ConsensusDetector } from './consensus.js';
+
+// Results that become citations, and so can back summary sentences
+const CITED_RESULTS = 5;
 
 export class ResultAggregator {
+  private clusterer: ResultClusterer;
+  private diversifier: ResultDiversifier;
+  private summarizer: SolutionSummarizer;
+  private consensusDetector: ConsensusDetector;
+
+  constructor(query: string) {
+    this.clusterer = new ResultClusterer();
+    this.diversifier = new ResultDiversifier();
+    this.summarizer = new SolutionSummarizer(query);
+    this.consensusDetector = new ConsensusDetector();
+  }
+
+  // `results` must be in ranked order; clustering keeps the best result of each cluster
   aggregateResults(
     results: RankedResult[],
+    sources: string[],
     elapsedMs: number,
     cacheHits: number,
-    incompleteSources?: string[]
+    incompleteSources?: string[],
+    explain = false
   ): GatherContextResult {
-    // Take top results
-    const topResults = results.slice(0, 10);
+    // Fold duplicates into one result per cluster, then spread the top slots across
+    // sources and solution approaches
+    const topResults = this.diversifier.rerank(this.clusterer.cluster(results)).slice(0, 10);
 
-    // Generate summary
-    const summary = this.generateSummary(topResults);
+    // Summarize what the cited answers say, falling back to an overview
+    const solution = this.summarizer.summarize(topResults.slice(0, CITED_RESULTS));
+    const summary = solution ? this.summarizer.format(solution) : this.generateSummary(topResults);
+
+    // Where the cited answers agree on an action, and where they contradict each other
+    const consensus = this.consensusDetector.detect(topResults.slice(0, CITED_RESULTS));
 
     // Extract highlights
     const highlights = this.extractHighlights(topResults);
 
     // Create citations
-    const citations = this.createCitations(topResults);
+    const citations = this.createCitations(topResults, explain);
 
     // Collect code snippets
     const snippets = this.collectCodeSnippets(topResults);
 
     // Calculate source counts
-    const sourceCounts = this.calculateSourceCounts(results);
+    const sourceCounts = this.calculateSourceCounts(results, sources);
 
     return {
       summary,
+      solution,
+      consensus,
       highlights,
       citations,
       snippets,
@@ -45,13 +74,13 @@ export class ResultAggregator {
     }
 
     const topResult = results[0];
-    const hasAcceptedAnswer = results.some(r => r.isAccepted);
+    const hasAcceptedAnswer = results.some(r => r.isAccepted || r.acceptedInCluster);
     const sources = [...new Set(results.map(r => r.source))];
 
     let summary = `Found ${results.length} relevant results from ${sources.join(' and ')}. `;
 
     if (hasAcceptedAnswer) {
-      const acceptedResults = results.filter(r => r.isAccepted);
+      const acceptedResults = results.filter(r => r.isAccepted || r.acceptedInCluster);
       summary += `${acceptedResults.length} result(s) have accepted/verified solutions. `;
     }
 
@@ -61,8 +90,8 @@ export class ResultAggregator {
 
     // Add version information if present
     const versionsFound = results
-      .filter(r => r.version)
-      .map(r => r.version)
+      .flatMap(r => r.versions || [])
+      .map(v => this.formatVersion(v))
       .filter((v, i, arr) => arr.indexOf(v) === i);
 
     if (versionsFound.length > 0) {
@@ -79,16 +108,23 @@ export class ResultAggregator {
     results.slice(0, 3).forEach(result => {
       if (result.isAccepted) {
         highlights.push(`✓ ${result.title} (${result.source})`);
+      } else if (result.acceptedInCluster) {
+        highlights.push(`✓ ${result.title} (${result.source}, accepted answer in a related result)`);
       } else {
         highlights.push(`• ${result.title} (${result.source})`);
       }
     });
 
+    // A fix in a newer release than the caller runs is the most actionable finding
+    results.filter(r => r.upgradeTo).slice(0, 2).forEach(result => {
+      highlights.push(`⬆ Fixed in ${this.formatVersion(result.upgradeTo!)}: ${result.title}`);
+    });
+
     // Add version-specific highlights
-    const versionSpecific = results.filter(r => r.version);
+    const versionSpecific = results.filter(r => r.versionMatch === 'exact' || r.versionMatch === 'same-major');
     if (versionSpecific.length > 0) {
       versionSpecific.slice(0, 2).forEach(result => {
-        highlights.push(`📌 Version ${result.version}: ${result.title}`);
+        highlights.push(`📌 Version ${(result.versions || []).map(v => this.formatVersion(v)).join(', ')}: ${result.title}`);
       });
     }
 
@@ -101,19 +137,49 @@ export class ResultAggregator {
     return highlights.slice(0, 5);
   }
 
-  private createCitations(results: RankedResult[]): Citation[] {
-    return results.slice(0, 5).map(result => ({
+  private createCitations(results: RankedResult[], explain: boolean): Citation[] {
+    return results.slice(0, CITED_RESULTS).map(result => ({
       title: result.title,
       url: result.url,
       source: result.source,
+      site: result.site,
+      parentUrl: result.parent?.url,
       author: result.author,
+      authority: result.authority,
       createdAt: result.createdAt.toISOString(),
       score: Math.round(result.finalScore),
-      version: result.version,
+      versions: result.versions?.map(v => this.formatVersion(v)),
+      versionMatch: result.versionMatch,
+      upgradeTo: result.upgradeTo && `${result.upgradeTo.technology} >= ${result.upgradeTo.version}`,
+      resolution: result.resolution?.status,
+      possiblyOutdated: result.deprecations,
+      related: result.related,
+      acceptedInCluster: result.acceptedInCluster,
+      explanation: explain ? this.explainScore(result) : undefined,
       snippet: this.extractSnippet(result.content),
     }));
   }
 
+  private explainScore(result: RankedResult): ScoreBreakdown {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    return {
+      relevance: round(result.relevanceScore),
+      recency: round(result.recencyScore),
+      community: round(result.communityScore),
+      source: round(result.sourceScore),
+      sourceMultiplier: Math.round(result.sourceMultiplier * 100) / 100,
+      acceptedBonus: round(result.acceptedBonus),
+      versionBonus: round(result.versionBonus),
+      feedbackBonus: round(result.feedbackBonus),
+      deprecationPenalty: round(result.deprecationPenalty),
+      final: round(result.finalScore),
+    };
+  }
+
+  private formatVersion(version: TechnologyVersion): string {
+    return `${version.technology} ${version.version}`;
+  }
+
   private extractSnippet(content: string): string {
     // Remove code blocks for snippet
     const withoutCode = content.replace(/```[\s\S]*?```/g, '[code]');
@@ -150,8 +216,9 @@ export class ResultAggregator {
     return snippets.slice(0, 5);
   }
 
-  private calculateSourceCounts(results: RankedResult[]): Record<string, number> {
-    const counts: Record<string, number> = {};
+  private calculateSourceCounts(results: RankedResult[], sources: string[]): Record<string, number> {
+    // Every searched source is reported, even when it returned nothing
+    const counts: Record<string, number> = Object.fromEntries(sources.map(source => [source, 0]));
 
     results.forEach(result => {
       counts[result.source] = (counts[result.source] || 0) + 1;
@@ -0,0 +1,106 @@
+import { tokenize } from '../utils/tokenizer.js';
+
+export type BM25Field = 'title' | 'body' | 'tags' | 'code';
+
+export type BM25Document = Record<BM25Field, string>;
+
+export interface BM25Params {
+  k1: number;
+  // How much each field counts towards a term's frequency
+  fieldWeights: Record<BM25Field, number>;
+  // Per-field length normalization (BM25 "b"); 0 ignores length, 1 fully normalizes
+  b: Record<BM25Field, number>;
+}
+
+const FIELDS: BM25Field[] = ['title', 'body', 'tags', 'code'];
+
+interface IndexedDocument {
+  termCounts: Record<BM25Field, Map<string, number>>;
+  lengths: Record<BM25Field, number>;
+}
+
+// BM25F over one result set: fields are weighted and length-normalized separately,
+// then share a single saturation curve, and IDF comes from the set being ranked
+export class BM25Index {
+  private params: BM25Params;
+  private documents: IndexedDocument[];
+  private averageLengths: Record<BM25Field, number>;
+  private documentFrequencies: Map<string, number>;
+
+  constructor(documents: BM25Document[], params: BM25Params) {
+    this.params = params;
+    this.documents = documents.map(document => this.indexDocument(document));
+    this.documentFrequencies = new Map();
+    this.averageLengths = { title: 0, body: 0, tags: 0, code: 0 };
+
+    for (const document of this.documents) {
+      const terms = new Set<string>();
+      for (const field of FIELDS) {
+        this.averageLengths[field] += document.lengths[field] / Math.max(this.documents.length, 1);
+        document.termCounts[field].forEach((_, term) => terms.add(term));
+      }
+      terms.forEach(term => this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1));
+    }
+  }
+
+  // 0-100: the share of the query's total IDF the document covers, with each
+  // term's contribution saturating rather than growing with repetition
+  score(query: string, documentIndex: number): number {
+    const terms = [...new Set(tokenize(query))];
+    const document = this.documents[documentIndex];
+    if (terms.length === 0 || !document) {
+      return 0;
+    }
+
+    let score = 0;
+    let maxScore = 0;
+    for (const term of terms) {
+      const idf = this.idf(term);
+      const frequency = this.weightedFrequency(document, term);
+      score += idf * (frequency / (this.params.k1 + frequency));
+      maxScore += idf;
+    }
+
+    return maxScore > 0 ? (score / maxScore) * 100 : 0;
+  }
+
+  private idf(term: string): number {
+    const total = this.documents.length;
+    const containing = this.documentFrequencies.get(term) || 0;
+    // The +1 keeps terms found in every result slightly positive
+    return Math.log(1 + (total - containing + 0.5) / (containing + 0.5));
+  }
+
+  private weightedFrequency(document: IndexedDocument, term: string): number {
+    let frequency = 0;
+
+    for (const field of FIELDS) {
+      const count = document.termCounts[field].get(term);
+      if (!count) {
+        continue;
+      }
+
+      const b = this.params.b[field];
+      const averageLength = this.averageLengths[field] || 1;
+      const normalization = 1 - b + b * (document.lengths[field] / averageLength);
+      frequency += this.params.fieldWeights[field] * (count / normalization);
+    }
+
+    return frequency;
+  }
+
+  private indexDocument(document: BM25Document): IndexedDocument {
+    const termCounts = {} as Record<BM25Field, Map<string, number>>;
+    const lengths = {} as Record<BM25Field, number>;
+
+    for (const field of FIELDS) {
+      const tokens = tokenize(document[field]);
+      const counts = new Map<string, number>();
+      tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+      termCounts[field] = counts;
+      lengths[field] = tokens.length;
+    }
+
+    return { termCounts, lengths };
+  }
+}
@@ -0,0 +1,189 @@
+import { RankedResult } from '../types/index.js';
+import { jaccard, tokenize } from '../utils/tokenizer.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+// Shorter content says too little for a word-overlap comparison
+const MIN_CONTENT_TERMS = 20;
+
+const LINK_PATTERN = /https?:\/\/[^\s)\]>"'`<]+/g;
+
+interface ClusterCandidate {
+  result: RankedResult;
+  // Canonical URLs that identify the result itself
+  identities: Set<string>;
+  // Canonical URLs of discussion threads the result links to
+  threadLinks: Set<string>;
+  titleTerms: Set<string>;
+  contentTerms: Set<string>;
+}
+
+interface Cluster {
+  members: ClusterCandidate[];
+}
+
+// Folds results about the same problem into one: a GitHub issue, the Stack Overflow
+// question that links to it and the Reddit thread that links to both
+export class ResultClusterer {
+  cluster(results: RankedResult[]): RankedResult[] {
+    const clusters: Cluster[] = [];
+
+    // Results arrive ranked, so the first member of each cluster is its best result
+    for (const result of results) {
+      const candidate = this.toCandidate(result);
+      const match = clusters.find(cluster => this.canJoin(cluster, candidate));
+      if (match) {
+        match.members.push(candidate);
+      } else {
+        clusters.push({ members: [candidate] });
+      }
+    }
+
+    return clusters.map(cluster => this.collapse(cluster));
+  }
+
+  private canJoin(cluster: Cluster, candidate: ClusterCandidate): boolean {
+    // Answers to one question are alternative solutions, not duplicates
+    const parentUrl = candidate.result.parent?.url;
+    if (parentUrl && cluster.members.some(member => member.result.parent?.url === parentUrl)) {
+      return false;
+    }
+
+    return cluster.members.some(member => this.isDuplicate(member, candidate));
+  }
+
+  private isDuplicate(a: ClusterCandidate, b: ClusterCandidate): boolean {
+    const settings = filters.global.clustering;
+
+    // Same thread, or one links to the other
+    if (this.intersects(a.identities, b.identities) ||
+        this.intersects(a.threadLinks, b.identities) ||
+        this.intersects(b.threadLinks, a.identities)) {
+      return true;
+    }
+
+    // Both point at the same issue or question
+    if (this.intersects(a.threadLinks, b.threadLinks)) {
+      return true;
+    }
+
+    if (a.titleTerms.size >= settings.minTitleTerms && b.titleTerms.size >= settings.minTitleTerms &&
+        jaccard(a.titleTerms, b.titleTerms) >= settings.titleSimilarity) {
+      return true;
+    }
+
+    return a.contentTerms.size >= MIN_CONTENT_TERMS && b.contentTerms.size >= MIN_CONTENT_TERMS &&
+      jaccard(a.contentTerms, b.contentTerms) >= settings.contentSimilarity;
+  }
+
+  // The best result stands for the cluster with its own score, votes and acceptance, which
+  // ranked it first; the others only add their snippets and links
+  private collapse(cluster: Cluster): RankedResult {
+    const [primary, ...others] = cluster.members.map(member => member.result);
+    if (others.length === 0) {
+      return primary;
+    }
+
+    const seenCode = new Set(primary.codeSnippets.map(snippet => snippet.code.trim()));
+    const codeSnippets = [...primary.codeSnippets];
+    others.flatMap(other => other.codeSnippets).forEach(snippet => {
+      if (!seenCode.has(snippet.code.trim())) {
+        seenCode.add(snippet.code.trim());
+        codeSnippets.push(snippet);
+      }
+    });
+
+    return {
+      ...primary,
+      codeSnippets,
+      related: others.slice(0, filters.global.clustering.maxRelated).map(other => ({
+        title: other.title,
+        url: other.url,
+        source: other.source,
+        voteCount: other.voteCount,
+      })),
+      acceptedInCluster: others.some(other => other.isAccepted) || undefined,
+    };
+  }
+
+  private toCandidate(result: RankedResult): ClusterCandidate {
+    const identities = new Set([this.canonicalUrl(result.url)]);
+    if (result.parent) {
+      identities.add(this.canonicalUrl(result.parent.url));
+    }
+
+    const threadLinks = new Set<string>();
+    for (const link of result.content.match(LINK_PATTERN) || []) {
+      const canonical = this.canonicalUrl(link.replace(/[.,;:!?]+$/, ''));
+      if (this.isThreadUrl(canonical) && !identities.has(canonical)) {
+        threadLinks.add(canonical);
+      }
+    }
+
+    const scanLength = filters.global.clustering.contentScanLength;
+    const body = result.content.substring(0, scanLength).replace(/```[\s\S]*?```/g, ' ');
+
+    return {
+      result,
+      identities,
+      threadLinks,
+      titleTerms: new Set(tokenize(result.title)),
+      contentTerms: new Set(tokenize(body)),
+    };
+  }
+
+  // One form per thread: no scheme, "www.", slug, query string or fragment
+  private canonicalUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url.toLowerCase();
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^(www|old|new)\./, '');
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+
+    // Hacker News identifies items by query parameter
+    if (host === 'news.ycombinator.com' && parsed.searchParams.has('id')) {
+      return `${host}/item?id=${parsed.searchParams.get('id')}`;
+    }
+
+    const question = pathname.match(/^\/(?:questions|q)\/(\d+)/);
+    if (question) {
+      return `${host}/questions/${question[1]}`;
+    }
+
+    const redditThread = pathname.match(/\/comments\/([a-z0-9]+)/i);
+    if (host.endsWith('reddit.com') && redditThread) {
+      return `reddit.com/comments/${redditThread[1].toLowerCase()}`;
+    }
+
+    return `${host}${pathname.toLowerCase()}`;
+  }
+
+  // Only links to discussions identify a problem; documentation links are shared by everything
+  private isThreadUrl(canonical: string): boolean {
+    return /^github\.com\/[^/]+\/[^/]+\/(?:issues|pull|discussions)\/\d+$/.test(canonical) ||
+      /\/questions\/\d+$/.test(canonical) ||
+      /^reddit\.com\/comments\//.test(canonical) ||
+      /^news\.ycombinator\.com\/item\?id=/.test(canonical);
+  }
+
+  private intersects(a: Set<string>, b: Set<string>): boolean {
+    for (const value of a) {
+      if (b.has(value)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
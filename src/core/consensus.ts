@@ -0,0 +1,395 @@
+import {
+  ConsensusReport,
+  Contradiction,
+  RankedResult,
+  Recommendation,
+  RecommendationKind,
+  RecommendationStance,
+} from '../types/index.js';
+import { splitSections } from '../utils/contentSections.js';
+import { parseSemVer } from '../utils/semver.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+const SHELL_LANGUAGES = new Set(['bash', 'sh', 'shell', 'zsh', 'console', 'terminal', 'powershell', 'ps', 'cmd']);
+const CONFIG_LANGUAGES = new Set(['json', 'jsonc', 'yaml', 'yml', 'toml', 'ini', 'env', 'dotenv', 'properties']);
+const COMMANDS = new Set([
+  'npm', 'npx', 'yarn', 'pnpm', 'bun', 'node', 'deno', 'pip', 'pip3', 'python', 'python3', 'poetry', 'uv',
+  'docker', 'docker-compose', 'kubectl', 'helm', 'git', 'brew', 'apt', 'apt-get', 'cargo', 'rustup', 'go',
+  'gem', 'bundle', 'composer', 'dotnet', 'mvn', 'gradle', './gradlew', 'tsc', 'systemctl',
+]);
+
+// Clauses that warn against what they name
+const NEGATION_PATTERN = /\b(?:don't|do not|doesn't work|does not work|never|avoid|shouldn't|should not|stop using|not recommended|won't work|will not work)\b|^\s*no\b/i;
+// "Don't do this:" right before a code block
+const LEAD_NEGATION_PATTERN = /\b(?:don't|do not|never|avoid|wrong|bad)\b[^.]*:\s*$/i;
+// Clause boundaries; text after "instead of" or "rather than" is what is being replaced
+const CLAUSE_SPLIT = /(,\s+|;\s+|\s+but\s+|\s+instead of\s+|\s+rather than\s+)/i;
+// Marks the recommendation that takes the place of a rejected one
+const INSTEAD_PATTERN = /\binstead\b/i;
+// Names in prose only count as API recommendations next to a verb asking for them
+const ACTION_VERB_PATTERN = /\b(?:use|call|try|switch to|replace|wrap|pass|invoke|prefer|don't|do not|avoid|never)\b/i;
+
+const CONFIG_VALUE = `"[^"]*"|'[^']*'|true|false|-?\\d+(?:\\.\\d+)?|[A-Za-z][\\w./@:-]*`;
+const CONFIG_LINE = new RegExp(`^\\s*(?:export\\s+)?("?)([A-Za-z_][\\w.-]*)\\1\\s*[:=]\\s*(${CONFIG_VALUE})\\s*,?\\s*(?:(?:#|//).*)?$`);
+const CONFIG_PAIR = new RegExp(`"?([A-Za-z_][\\w.-]*)"?\\s*[:=]\\s*(${CONFIG_VALUE})`, 'g');
+const INLINE_CONFIG = new RegExp(`^\\{?\\s*"?[A-Za-z_][\\w.-]*"?\\s*[:=]\\s*(?:${CONFIG_VALUE})(?:\\s*,\\s*"?[A-Za-z_][\\w.-]*"?\\s*[:=]\\s*(?:${CONFIG_VALUE}))*\\s*,?\\s*\\}?$`);
+const API_CALL = /^((?:new\s+)?[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\(.*\)$/;
+const PACKAGE_SPEC = /^(@?[a-z][\w.-]*(?:\/[\w.-]+)?)@([\^~]?\d[\w.-]*)$/;
+
+const SET_PATTERN = /\bset(?:ting)?\s+`?([A-Za-z_][\w.-]*)`?\s+to\s+`?("[^"]*"|'[^']*'|[\w.@/-]+?)`?(?=[\s.,;]|$)/gi;
+const TOGGLE_PATTERN = /\b(enabl(?:e|ing)|turn(?:ing)? on|disabl(?:e|ing)|turn(?:ing)? off)\s+(?:the\s+)?`([A-Za-z_][\w.-]*)`/gi;
+const UPGRADE_PATTERN = /\b(?:upgrad(?:e|ing)|updat(?:e|ing)|downgrad(?:e|ing)|bump(?:ing)?|pin(?:ning)?)\s+(?:to\s+)?`?(@?[a-z][\w./-]*)`?\s+(?:to\s+)?v?(\d+(?:\.\d+){0,2})\b/gi;
+
+interface ExtractedAction {
+  kind: RecommendationKind;
+  subject: string;
+  action: string;
+  stance: RecommendationStance;
+  citation: number;
+}
+
+// A name warned against without saying what it is, e.g. "don't enable `esModuleInterop`"
+interface DiscouragedMention {
+  name: string;
+  citation: number;
+}
+
+interface Position {
+  action: string;
+  stance: RecommendationStance;
+  citations: Set<number>;
+  // What the discouraging citations use instead, from "don't, use Y instead"
+  replacement?: string;
+}
+
+interface Subject {
+  kind: RecommendationKind;
+  subject: string;
+  positions: Map<string, Position>;
+}
+
+// Pulls concrete actions (config values, package versions, commands, API calls) out of the cited
+// answers and comments, then reports the ones several citations share and the ones they fight over
+export class ConsensusDetector {
+  // `results` are the cited results, in citation order
+  detect(results: RankedResult[]): ConsensusReport | undefined {
+    const settings = filters.global.consensus;
+    const actions: ExtractedAction[] = [];
+    const mentions: DiscouragedMention[] = [];
+    const replacements: ExtractedAction[] = [];
+
+    results.forEach((result, index) => {
+      for (const { body } of splitSections(result.content)) {
+        this.extractFromSection(body, index + 1, actions, mentions, replacements);
+      }
+    });
+
+    const subjects = this.group(actions, mentions, replacements);
+
+    const agreements: Recommendation[] = [...subjects.values()]
+      .flatMap(subject => [...subject.positions.values()]
+        .filter(position => position.stance === 'recommend' && position.citations.size >= settings.minAgreement)
+        .map(position => ({
+          kind: subject.kind,
+          subject: subject.subject,
+          action: position.action,
+          citations: [...position.citations].sort((a, b) => a - b),
+          agreement: position.citations.size,
+        })))
+      .sort((a, b) => b.agreement - a.agreement)
+      .slice(0, settings.maxAgreements);
+
+    const contradictions: Contradiction[] = [...subjects.values()]
+      .filter(subject => this.isContested(subject))
+      .map(subject => ({
+        kind: subject.kind,
+        subject: subject.subject,
+        positions: [...subject.positions.values()].map(position => ({
+          action: position.action,
+          stance: position.stance,
+          citations: [...position.citations].sort((a, b) => a - b),
+          ...(position.replacement ? { replacement: position.replacement } : {}),
+        })),
+      }))
+      .slice(0, settings.maxContradictions);
+
+    if (agreements.length === 0 && contradictions.length === 0) {
+      return undefined;
+    }
+    return { agreements, contradictions };
+  }
+
+  private group(actions: ExtractedAction[], mentions: DiscouragedMention[], replacements: ExtractedAction[]): Map<string, Subject> {
+    const subjects = new Map<string, Subject>();
+    const keyOf = (kind: RecommendationKind, subject: string) => `${kind}\n${subject.toLowerCase()}`;
+
+    const add = (action: ExtractedAction, replacement?: string) => {
+      const key = keyOf(action.kind, action.subject);
+      const subject = subjects.get(key) || { kind: action.kind, subject: action.subject, positions: new Map() };
+      const positionKey = `${action.stance}\n${action.action.toLowerCase()}`;
+      const position: Position = subject.positions.get(positionKey) || { action: action.action, stance: action.stance, citations: new Set() };
+      position.citations.add(action.citation);
+      position.replacement = position.replacement || replacement;
+      subject.positions.set(positionKey, position);
+      subjects.set(key, subject);
+    };
+
+    actions.forEach(action => add(action));
+
+    // A bare name warned against counts against everything recommended for it
+    for (const mention of mentions) {
+      const name = mention.name.replace(/\(\)$/, '').toLowerCase();
+      const subject = [...subjects.values()].find(candidate =>
+        candidate.kind !== 'command' && candidate.subject.toLowerCase() === name);
+      if (subject) {
+        add({ kind: subject.kind, subject: subject.subject, action: subject.subject, stance: 'discourage', citation: mention.citation });
+      }
+    }
+
+    // "Don't, use Y instead" answers another citation without naming what it rejects, so it
+    // counts against what the other citations recommend for the same kind of subject
+    for (const replacement of replacements) {
+      for (const subject of [...subjects.values()]) {
+        if (subject.kind !== replacement.kind || subject.subject.toLowerCase() === replacement.subject.toLowerCase()) {
+          continue;
+        }
+        for (const position of [...subject.positions.values()]) {
+          if (position.stance === 'recommend' && !position.citations.has(replacement.citation)) {
+            add({ ...replacement, subject: subject.subject, action: position.action, stance: 'discourage' }, replacement.action);
+          }
+        }
+      }
+    }
+
+    return subjects;
+  }
+
+  private isContested(subject: Subject): boolean {
+    const positions = [...subject.positions.values()];
+    const recommended = positions.filter(position => position.stance === 'recommend');
+    const discouraged = positions.filter(position => position.stance === 'discourage');
+
+    // Disagreement only counts between different citations
+    const fromDifferentCitations = (a: Position, b: Position) =>
+      [...a.citations].some(x => [...b.citations].some(y => x !== y));
+
+    const warnedAgainst = discouraged.some(against => recommended.some(forIt =>
+      (against.action === subject.subject || against.action.toLowerCase() === forIt.action.toLowerCase()) &&
+      fromDifferentCitations(against, forIt)));
+    if (warnedAgainst) {
+      return true;
+    }
+
+    return recommended.some((a, i) => recommended.slice(i + 1).some(b => {
+      if (!fromDifferentCitations(a, b)) {
+        return false;
+      }
+      if (subject.kind === 'config') {
+        return true;
+      }
+      // Different releases of one package only conflict across majors
+      if (subject.kind === 'package') {
+        const versionA = parseSemVer(a.action.substring(subject.subject.length).replace(/^[@=<>~^]+/, ''));
+        const versionB = parseSemVer(b.action.substring(subject.subject.length).replace(/^[@=<>~^]+/, ''));
+        return !!versionA && !!versionB && versionA.major !== versionB.major;
+      }
+      return false;
+    }));
+  }
+
+  private extractFromSection(
+    body: string,
+    citation: number,
+    actions: ExtractedAction[],
+    mentions: DiscouragedMention[],
+    replacements: ExtractedAction[]
+  ): void {
+    let proseStart = 0;
+    for (const block of body.matchAll(/```(\w*)\n([\s\S]*?)```/g)) {
+      const lead = body.substring(proseStart, block.index).trim().split('\n').pop() || '';
+      const stance: RecommendationStance = LEAD_NEGATION_PATTERN.test(lead) ? 'discourage' : 'recommend';
+      this.extractFromCode(block[1].toLowerCase(), block[2], stance, citation, actions);
+      proseStart = block.index! + block[0].length;
+    }
+
+    // A "don't" with nothing to attach to waits for the "use Y instead" that goes with it
+    let pendingNegation = false;
+    const prose = body.replace(/```[\s\S]*?```/g, '\n');
+    for (const sentence of prose.split(/\n+|(?<=[.!?])\s+/)) {
+      const start = actions.length;
+      const unanchored = this.extractFromSentence(sentence, citation, actions, mentions);
+
+      const offered = actions.slice(start).filter(action => action.stance === 'recommend');
+      if ((pendingNegation || unanchored) && offered.length > 0 && INSTEAD_PATTERN.test(sentence)) {
+        replacements.push(...offered);
+        pendingNegation = false;
+      } else {
+        pendingNegation = pendingNegation || unanchored;
+      }
+    }
+  }
+
+  private extractFromCode(
+    language: string,
+    code: string,
+    stance: RecommendationStance,
+    citation: number,
+    actions: ExtractedAction[]
+  ): void {
+    const lines = code.split('\n');
+
+    if (SHELL_LANGUAGES.has(language) || (!language && lines.some(line => this.toCommand(line)))) {
+      lines.forEach(line => {
+        const command = this.toCommand(line);
+        if (command) {
+          this.addCommand(command, stance, citation, actions);
+        }
+      });
+      return;
+    }
+
+    // Unlabeled blocks only count when they look like JSON, so code is not read as config
+    if (CONFIG_LANGUAGES.has(language) || !language) {
+      lines.forEach(line => {
+        const match = line.match(CONFIG_LINE);
+        if (match && (language || match[1] === '"')) {
+          actions.push(this.configAction(match[2], match[3], stance, citation));
+        }
+      });
+    }
+  }
+
+  // True when a clause warns against something without naming it, e.g. the "Don't" in "Don't, use X instead"
+  private extractFromSentence(sentence: string, citation: number, actions: ExtractedAction[], mentions: DiscouragedMention[]): boolean {
+    // Inline code is masked so a comma inside it does not split the clause
+    const spans: string[] = [];
+    const masked = sentence.replace(/`([^`\n]+)`/g, (_, code: string) => `\u0000${spans.push(code) - 1}\u0000`);
+    const parts = masked.split(CLAUSE_SPLIT);
+    let unanchored = false;
+
+    for (let i = 0; i < parts.length; i += 2) {
+      const replaced = i > 0 && /instead of|rather than/i.test(parts[i - 1]);
+      const bare = parts[i].replace(/\u0000\d+\u0000/g, ' ');
+      const negated = NEGATION_PATTERN.test(bare);
+      const stance: RecommendationStance = replaced || negated ? 'discourage' : 'recommend';
+      const found = actions.length + mentions.length;
+      const clause = parts[i].replace(/\u0000(\d+)\u0000/g, (_, index: string) => `\`${spans[Number(index)]}\``);
+      const consumed = new Set<string>();
+
+      for (const match of clause.matchAll(SET_PATTERN)) {
+        actions.push(this.configAction(match[1], match[2], stance, citation));
+        consumed.add(match[1]).add(match[2]);
+      }
+      for (const match of clause.matchAll(TOGGLE_PATTERN)) {
+        actions.push(this.configAction(match[2], /^(?:enabl|turn(?:ing)? on)/i.test(match[1]) ? 'true' : 'false', stance, citation));
+        consumed.add(match[2]);
+      }
+      for (const match of clause.matchAll(UPGRADE_PATTERN)) {
+        if (!/^(?:version|v|the|it|this)$/i.test(match[1])) {
+          actions.push({ kind: 'package', subject: match[1], action: `${match[1]}@${match[2]}`, stance, citation });
+          consumed.add(match[1]);
+        }
+      }
+
+      for (const [, span] of clause.matchAll(/`([^`]+)`/g)) {
+        if (!consumed.has(span)) {
+          this.extractFromSpan(span.trim(), clause, stance, citation, actions, mentions);
+        }
+      }
+
+      if (negated && actions.length + mentions.length === found) {
+        unanchored = true;
+      }
+    }
+
+    return unanchored;
+  }
+
+  private extractFromSpan(
+    span: string,
+    clause: string,
+    stance: RecommendationStance,
+    citation: number,
+    actions: ExtractedAction[],
+    mentions: DiscouragedMention[]
+  ): void {
+    const command = this.toCommand(span);
+    if (command) {
+      this.addCommand(command, stance, citation, actions);
+      return;
+    }
+
+    const call = span.match(API_CALL);
+    if (call) {
+      if (ACTION_VERB_PATTERN.test(clause)) {
+        actions.push({ kind: 'api', subject: call[1], action: `${call[1]}()`, stance, citation });
+      }
+      return;
+    }
+
+    if (INLINE_CONFIG.test(span)) {
+      for (const pair of span.matchAll(CONFIG_PAIR)) {
+        actions.push(this.configAction(pair[1], pair[2], stance, citation));
+      }
+      return;
+    }
+
+    const spec = span.match(PACKAGE_SPEC);
+    if (spec) {
+      actions.push({ kind: 'package', subject: spec[1], action: span, stance, citation });
+      return;
+    }
+
+    if (stance === 'discourage' && /^[@A-Za-z_][\w./@-]*(?:\(\))?$/.test(span)) {
+      mentions.push({ name: span, citation });
+    }
+  }
+
+  private addCommand(command: string, stance: RecommendationStance, citation: number, actions: ExtractedAction[]): void {
+    actions.push({ kind: 'command', subject: command, action: command, stance, citation });
+
+    // Installs also say which package, and often which release, to use
+    const npm = command.match(/^(?:npm|pnpm|yarn|bun)\s+(?:install|i|add|update|upgrade|up)\s+(.+)$/);
+    const pip = command.match(/^(?:pip3?|python3?\s+-m\s+pip|uv\s+pip|poetry)\s+(?:install|add)\s+(.+)$/);
+    const args = (npm || pip)?.[1].split(/\s+/).filter(arg => !arg.startsWith('-')) || [];
+
+    for (const arg of args) {
+      const match = npm
+        ? arg.match(/^(@?[^@\s]+)(?:@(.+))?$/)
+        : arg.match(/^([\w.-]+)(?:\[[^\]]*\])?(?:([=<>~!]=?|===)(.+))?$/);
+      if (!match) {
+        continue;
+      }
+
+      const name = match[1];
+      const action = npm ? arg : match[2] ? `${name}${match[2]}${match[3]}` : name;
+      actions.push({ kind: 'package', subject: name, action, stance, citation });
+    }
+  }
+
+  private configAction(key: string, rawValue: string, stance: RecommendationStance, citation: number): ExtractedAction {
+    const value = rawValue.replace(/^["']|["']$/g, '');
+    const normalized = /^(?:true|false)$/i.test(value) ? value.toLowerCase() : value;
+    return { kind: 'config', subject: key, action: `${key}: ${normalized}`, stance, citation };
+  }
+
+  private toCommand(line: string): string | undefined {
+    const command = line
+      .replace(/^\s*(?:\$|>|PS>)\s+/, '')
+      .replace(/\s+#.*$/, '')
+      .replace(/^sudo\s+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return COMMANDS.has(command.split(' ')[0]) && command.includes(' ') ? command : undefined;
+  }
+}
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { DeprecatedUsage, NormalizedResult } from '../types/index.js';
+import { taxonomy } from './taxonomy.js';
+import { SemVer, parseSemVer } from '../utils/semver.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const deprecationsPath = path.join(__dirname, '../config/deprecations.json');
+
+// Prose that names a deprecated API to warn about it is not using it
+const DISCLAIMER_PATTERN = /deprecat|legacy|obsolete|outdated|instead of|no longer|removed|replaced|don't use|do not use|avoid/i;
+
+const DeprecationSchema = z.object({
+  // Exactly one of api and package
+  api: z.string().min(1).optional(),
+  package: z.string().min(1).optional(),
+  // Required for APIs; packages match imports, requires and installs by default
+  pattern: z.string().min(1).optional(),
+  // Omitted when every version of the technology is affected
+  deprecatedIn: z.string().refine(version => parseSemVer(version) !== null, version => ({
+    message: `Invalid version "${version}"`,
+  })).optional(),
+  replacement: z.string().min(1),
+}).strict()
+  .refine(entry => !!entry.api !== !!entry.package, { message: 'Give either api or package' })
+  .refine(entry => !entry.api || !!entry.pattern, { message: 'APIs need a pattern' });
+
+const DeprecationsSchema = z.object({
+  technologies: z.record(
+    z.string().refine(id => taxonomy.get(id) !== undefined, id => ({ message: `Unknown technology "${id}"` })),
+    z.array(DeprecationSchema)
+  ),
+}).strict();
+
+export interface Deprecation extends DeprecatedUsage {
+  version?: SemVer;
+  pattern: RegExp;
+}
+
+export class DeprecationCatalog {
+  private deprecations: Deprecation[];
+
+  constructor(data: unknown) {
+    const parsed = DeprecationsSchema.safeParse(data);
+    if (!parsed.success) {
+      const problems = parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      throw new Error(`Invalid deprecations file:\n${problems.join('\n')}`);
+    }
+
+    this.deprecations = Object.entries(parsed.data.technologies).flatMap(([technology, entries]) =>
+      entries.map((entry, index) => {
+        const api = (entry.api || entry.package)!;
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(entry.pattern || this.packagePattern(api), 'm');
+        } catch (error) {
+          throw new Error(`Invalid deprecations file:\ntechnologies.${technology}.${index}.pattern: ${error instanceof Error ? error.message : error}`);
+        }
+
+        return {
+          technology,
+          api,
+          deprecatedIn: entry.deprecatedIn,
+          replacement: entry.replacement,
+          version: entry.deprecatedIn ? parseSemVer(entry.deprecatedIn)! : undefined,
+          pattern,
+        };
+      })
+    );
+  }
+
+  // Deprecated APIs used in a result's code, or recommended in its prose, for the technologies it is about
+  find(result: NormalizedResult): Deprecation[] {
+    const covered = this.technologiesOf(result);
+    const candidates = this.deprecations.filter(deprecation => covered.has(deprecation.technology));
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const code = result.codeSnippets.map(snippet => snippet.code).join('\n');
+    const prose = result.content
+      .replace(/```[\s\S]*?```/g, '\n')
+      .split(/(?<=[.!?])\s+|\n+/)
+      .filter(sentence => !DISCLAIMER_PATTERN.test(sentence))
+      .join('\n');
+
+    return candidates.filter(deprecation => deprecation.pattern.test(code) || deprecation.pattern.test(prose));
+  }
+
+  // "print x" or "Vue.extend(" only point at a deprecation in a result about that technology
+  private technologiesOf(result: NormalizedResult): Set<string> {
+    const technologies = new Set<string>(result.versions?.map(version => version.technology));
+
+    result.tags.forEach(tag => {
+      const technology = taxonomy.findByStackOverflowTag(tag.toLowerCase());
+      if (technology) {
+        technologies.add(technology);
+      }
+    });
+
+    const repo = result.url.match(/github\.com\/([^/]+\/[^/]+)\//);
+    const repoTechnology = repo && taxonomy.findByRepo(repo[1]);
+    if (repoTechnology) {
+      technologies.add(repoTechnology);
+    }
+
+    const languages = result.codeSnippets.map(snippet => snippet.language).join(' ');
+    taxonomy.detect(`${result.title}\n${result.content}\n${languages}`).forEach(technology => technologies.add(technology));
+
+    return technologies;
+  }
+
+  private packagePattern(name: string): string {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return [
+      `require\\(\\s*['"]${escaped}['"]\\s*\\)`,
+      `from\\s+['"]${escaped}(?:/[^'"]*)?['"]`,
+      `^\\s*(?:from|import)\\s+${escaped}\\b`,
+      `\\b(?:npm|yarn|pnpm|pip3?)\\s+(?:install|add|i)\\s+(?:-\\S+\\s+)*${escaped}(?![\\w/-])`,
+    ].join('|');
+  }
+}
+
+// Loaded once at startup; an invalid file stops the server before it accepts requests
+export const deprecations = new DeprecationCatalog(JSON.parse(fs.readFileSync(deprecationsPath, 'utf-8')));
@@ -0,0 +1,126 @@
+import { RankedResult } from '../types/index.js';
+import { jaccard, tokenize } from '../utils/tokenizer.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+type SolutionApproach = 'version-upgrade' | 'config-change' | 'code-change' | 'discussion';
+
+const CONFIG_LANGUAGES = new Set(['json', 'yaml', 'yml', 'toml', 'ini', 'env', 'properties', 'xml', 'nginx', 'conf']);
+
+interface DiversityCandidate {
+  result: RankedResult;
+  // Final score scaled to 0-1 against the best result
+  relevance: number;
+  terms: Set<string>;
+  approach: SolutionApproach;
+}
+
+// Maximal marginal relevance over the ranked results, so near-identical hits from
+// one source do not push out answers that take a different approach
+export class ResultDiversifier {
+  rerank(results: RankedResult[]): RankedResult[] {
+    const settings = filters.global.diversity;
+    const limit = Math.min(settings.topK, results.length);
+    if (limit <= 1) {
+      return results;
+    }
+
+    const bestScore = Math.max(...results.map(result => result.finalScore), 1);
+    const remaining = results.map(result => this.toCandidate(result, bestScore));
+    const selected: DiversityCandidate[] = [];
+
+    while (selected.length < limit) {
+      const pool = this.restrictToUnderrepresented(remaining, selected, limit);
+
+      let best: DiversityCandidate | undefined;
+      let bestValue = -Infinity;
+      for (const candidate of pool) {
+        const redundancy = Math.max(0, ...selected.map(chosen => this.similarity(candidate, chosen)));
+        const value = settings.lambda * candidate.relevance - (1 - settings.lambda) * redundancy;
+        if (value > bestValue) {
+          bestValue = value;
+          best = candidate;
+        }
+      }
+
+      selected.push(best!);
+      remaining.splice(remaining.indexOf(best!), 1);
+    }
+
+    // Everything past the diversified head keeps its ranked order
+    return [...selected, ...remaining].map(candidate => candidate.result);
+  }
+
+  // Once the free slots only just cover the sources still below their minimum,
+  // the next pick has to come from one of them
+  private restrictToUnderrepresented(
+    remaining: DiversityCandidate[],
+    selected: DiversityCandidate[],
+    limit: number
+  ): DiversityCandidate[] {
+    const minPerSource = filters.global.diversity.minPerSource;
+    const counts = new Map<string, number>();
+    selected.forEach(candidate => counts.set(candidate.result.source, (counts.get(candidate.result.source) || 0) + 1));
+
+    const missing = new Map<string, number>();
+    remaining.forEach(candidate => {
+      const source = candidate.result.source;
+      const needed = minPerSource - (counts.get(source) || 0);
+      if (needed > 0) {
+        const available = remaining.filter(other => other.result.source === source).length;
+        missing.set(source, Math.min(needed, available));
+      }
+    });
+
+    const totalMissing = [...missing.values()].reduce((sum, count) => sum + count, 0);
+    if (totalMissing === 0 || totalMissing < limit - selected.length) {
+      return remaining;
+    }
+
+    return remaining.filter(candidate => missing.has(candidate.result.source));
+  }
+
+  private similarity(a: DiversityCandidate, b: DiversityCandidate): number {
+    const approachWeight = filters.global.diversity.approachWeight;
+    const sameApproach = a.approach === b.approach ? 1 : 0;
+    return (1 - approachWeight) * jaccard(a.terms, b.terms) + approachWeight * sameApproach;
+  }
+
+  private toCandidate(result: RankedResult, bestScore: number): DiversityCandidate {
+    return {
+      result,
+      relevance: Math.max(result.finalScore, 0) / bestScore,
+      terms: new Set(tokenize(`${result.title}\n${result.content.substring(0, filters.global.diversity.contentScanLength)}`)),
+      approach: this.classifyApproach(result),
+    };
+  }
+
+  private classifyApproach(result: RankedResult): SolutionApproach {
+    const content = result.content;
+
+    if (result.upgradeTo || result.fixedIn ||
+        /\b(?:upgrad(?:e|ing)|updat(?:e|ing)|bump(?:ing)?|downgrad(?:e|ing))\s+(?:to|your|the)\b|\b(?:npm|yarn|pnpm)\s+(?:install|i|add|up(?:grade)?)\s+\S+@|\bpip\s+install\s+(?:-U|--upgrade)/i.test(content)) {
+      return 'version-upgrade';
+    }
+
+    const languages = result.codeSnippets.map(snippet => snippet.language.toLowerCase());
+    if (languages.some(language => CONFIG_LANGUAGES.has(language)) ||
+        /\b(?:tsconfig|webpack\.config|vite\.config|next\.config|\.env|environment variable|config(?:uration)? (?:file|option|setting)|set(?:ting)? the \S+ (?:option|flag))\b/i.test(content)) {
+      return 'config-change';
+    }
+
+    if (result.codeSnippets.length > 0) {
+      return 'code-change';
+    }
+
+    return 'discussion';
+  }
+}
@@ -0,0 +1,300 @@
+import { ErrorSignature, StackFrame } from '../types/index.js';
+
+const MAX_FRAMES = 3;
+const MAX_MESSAGE_WORDS = 12;
+
+// Runtime namespaces that say nothing about which library is involved
+const JVM_PLATFORM_PREFIXES = ['java.', 'javax.', 'jdk.', 'sun.', 'com.sun.', 'kotlin.', 'scala.'];
+const RUST_STD_CRATES = ['std', 'core', 'alloc', 'rust_begin_unwind', 'main', '__rust_begin_short_backtrace'];
+
+export class ErrorLogParser {
+  parse(text: string): ErrorSignature | null {
+    // Most distinctive markers first; V8 frames are the loosest match
+    return this.parseTypeScript(text)
+      || this.parsePython(text)
+      || this.parseJvm(text)
+      || this.parseRust(text)
+      || this.parseGo(text)
+      || this.parseNode(text);
+  }
+
+  buildSearchQuery(signature: ErrorSignature): string {
+    const parts: string[] = [];
+
+    if (signature.code) {
+      parts.push(signature.code);
+    }
+
+    if (signature.exceptionType && signature.exceptionType !== 'Error') {
+      // JVM types are searched by simple name
+      parts.push(signature.exceptionType.split('.').pop() || signature.exceptionType);
+    }
+
+    if (signature.message) {
+      parts.push(signature.message.split(/\s+/).slice(0, MAX_MESSAGE_WORDS).join(' '));
+    } else if (signature.frames[0]?.symbol) {
+      parts.push(signature.frames[0].symbol);
+    }
+
+    if (signature.packages.length > 0 && !parts.some(part => part.includes(signature.packages[0]))) {
+      parts.push(signature.packages[0]);
+    }
+
+    return parts.join(' ').trim();
+  }
+
+  private parseTypeScript(text: string): ErrorSignature | null {
+    const match = text.match(/error (TS\d{4,5}):\s*(.+)$/m);
+    if (!match) {
+      return null;
+    }
+
+    // Module specifiers in the message are the packages involved
+    const packages = new Set<string>();
+    const moduleRegex = /module ['"]((?:@[\w.-]+\/)?[\w.-]+)(?:\/[^'"]*)?['"]/gi;
+    let moduleMatch;
+    while ((moduleMatch = moduleRegex.exec(match[2])) !== null) {
+      if (!moduleMatch[1].startsWith('.')) {
+        packages.add(moduleMatch[1]);
+      }
+    }
+
+    const nodeModulesPackage = this.getNodeModulesPackage(text);
+    if (nodeModulesPackage) {
+      packages.add(nodeModulesPackage);
+    }
+
+    return {
+      format: 'typescript',
+      code: match[1],
+      message: this.normalizeMessage(match[2]),
+      frames: [],
+      packages: [...packages],
+    };
+  }
+
+  private parsePython(text: string): ErrorSignature | null {
+    if (!/Traceback \(most recent call last\):/.test(text)) {
+      return null;
+    }
+
+    const frames: StackFrame[] = [];
+    const frameRegex = /^\s*File "(.+?)", line \d+, in (.+)$/gm;
+    let match;
+    while ((match = frameRegex.exec(text)) !== null) {
+      const libraryMatch = match[1].match(/(?:site|dist)-packages[\\/]([A-Za-z0-9_]+)/);
+      if (libraryMatch) {
+        frames.push({ symbol: match[2].trim(), file: this.trimPath(match[1]), package: libraryMatch[1] });
+      }
+    }
+
+    // The exception line is the last unindented line after the frames
+    let exception: RegExpMatchArray | null = null;
+    for (const line of text.split('\n')) {
+      const lineMatch = line.match(/^([A-Za-z_][\w.]*)(?::\s*(.*))?$/);
+      if (lineMatch && lineMatch[1] !== 'Traceback') {
+        exception = lineMatch;
+      }
+    }
+
+    if (!exception) {
+      return null;
+    }
+
+    // Python prints the innermost frame last
+    const topFrames = frames.reverse().slice(0, MAX_FRAMES);
+
+    return {
+      format: 'python',
+      exceptionType: exception[1],
+      message: this.normalizeMessage(exception[2] || ''),
+      frames: topFrames,
+      packages: this.uniquePackages(frames),
+    };
+  }
+
+  private parseJvm(text: string): ErrorSignature | null {
+    const headerRegex = /^(?:Exception in thread ".*?" |Caused by: )?((?:[a-z_$][\w$]*\.)+[A-Z][\w$]*(?:Exception|Error|Throwable))(?::\s*(.*))?$/gm;
+    const frameRegex = /^\s*at ((?:[\w$]+\.)+[\w$<>]+)\((.*?)\)/gm;
+
+    const hasFrames = frameRegex.test(text);
+    frameRegex.lastIndex = 0;
+
+    // The last "Caused by" is the root cause
+    let header: RegExpExecArray | null = null;
+    let match;
+    while ((match = headerRegex.exec(text)) !== null) {
+      header = match;
+    }
+
+    if (!header || (!hasFrames && !/Exception in thread/.test(text))) {
+      return null;
+    }
+
+    // Frames under the root cause come first, the rest still name the libraries involved
+    const frames: StackFrame[] = [];
+    const rootCauseFrames: StackFrame[] = [];
+    while ((match = frameRegex.exec(text)) !== null) {
+      const symbol = match[1];
+      if (JVM_PLATFORM_PREFIXES.some(prefix => symbol.startsWith(prefix))) {
+        continue;
+      }
+      const frame = { symbol, file: match[2] || undefined, package: symbol.split('.').slice(0, 2).join('.') };
+      (match.index > header.index ? rootCauseFrames : frames).push(frame);
+    }
+
+    return {
+      format: 'jvm',
+      exceptionType: header[1],
+      message: this.normalizeMessage(header[2] || ''),
+      frames: rootCauseFrames.slice(0, MAX_FRAMES),
+      packages: this.uniquePackages([...rootCauseFrames, ...frames]),
+    };
+  }
+
+  private parseRust(text: string): ErrorSignature | null {
+    const compilerMatch = text.match(/^error\[(E\d{4})\]:\s*(.+)$/m);
+    const panicMatch = text.match(/thread '.*?' panicked at (?:'([\s\S]*?)', \S+|\S+?:\d+:\d+:\s*\n(.+))/);
+
+    if (!compilerMatch && !panicMatch) {
+      return null;
+    }
+
+    const frames: StackFrame[] = [];
+    const packages = new Set<string>();
+
+    const frameRegex = /^\s*\d+:\s+(?:0x[0-9a-f]+ - )?([\w:<>{}\s]+?)\s*$/gm;
+    let match;
+    while ((match = frameRegex.exec(text)) !== null) {
+      const crate = match[1].split('::')[0].replace(/^</, '');
+      if (!RUST_STD_CRATES.includes(crate) && /^[a-z_][a-z0-9_]*$/.test(crate)) {
+        frames.push({ symbol: match[1], package: crate });
+      }
+    }
+
+    const registryRegex = /\.cargo[\\/]registry[\\/]src[\\/][^\\/]+[\\/]([A-Za-z0-9_-]+?)-\d+\.\d+/g;
+    while ((match = registryRegex.exec(text)) !== null) {
+      packages.add(match[1]);
+    }
+    this.uniquePackages(frames).forEach(pkg => packages.add(pkg));
+
+    if (compilerMatch) {
+      return {
+        format: 'rust',
+        code: compilerMatch[1],
+        message: this.normalizeMessage(compilerMatch[2]),
+        frames: [],
+        packages: [...packages],
+      };
+    }
+
+    return {
+      format: 'rust',
+      exceptionType: 'panic',
+      message: this.normalizeMessage(panicMatch![1] || panicMatch![2] || ''),
+      frames: frames.slice(0, MAX_FRAMES),
+      packages: [...packages],
+    };
+  }
+
+  private parseGo(text: string): ErrorSignature | null {
+    const match = text.match(/^(panic|fatal error): (.+)$/m);
+    if (!match || !/goroutine \d+ \[/.test(text)) {
+      return null;
+    }
+
+    const frames: StackFrame[] = [];
+    const frameRegex = /^([\w.\-/]+?)\.((?:\(\*?[\w]+\)\.)?[\w]+)\(.*\)\n\t(\S+?):\d+/gm;
+    let frameMatch;
+    while ((frameMatch = frameRegex.exec(text)) !== null) {
+      const pkg = frameMatch[1];
+      // Third-party packages are module paths; stdlib and main are not
+      if (pkg.includes('.') && pkg.includes('/')) {
+        frames.push({ symbol: `${pkg}.${frameMatch[2]}`, file: this.trimPath(frameMatch[3]), package: pkg });
+      }
+    }
+
+    let message = match[2];
+    let exceptionType = match[1];
+    if (message.startsWith('runtime error: ')) {
+      exceptionType = 'runtime error';
+      message = message.slice('runtime error: '.length);
+    }
+
+    return {
+      format: 'go',
+      exceptionType,
+      message: this.normalizeMessage(message),
+      frames: frames.slice(0, MAX_FRAMES),
+      packages: this.uniquePackages(frames),
+    };
+  }
+
+  private parseNode(text: string): ErrorSignature | null {
+    const frameRegex = /^\s*at (?:async )?(?:(.+?) \()?((?:file:\/\/)?[^\s()]+?):\d+:\d+\)?\s*$/gm;
+    const headerMatch = text.match(/^(?:Uncaught )?([A-Z][\w.]*(?:Error|Exception)|Error)(?: \[([A-Z0-9_]+)\])?: (.+)$/m);
+
+    const allFrames: StackFrame[] = [];
+    let match;
+    while ((match = frameRegex.exec(text)) !== null) {
+      allFrames.push({ symbol: match[1], file: match[2] });
+    }
+
+    if (!headerMatch || (allFrames.length === 0 && !headerMatch[2])) {
+      return null;
+    }
+
+    const frames = allFrames
+      .filter(frame => frame.file && /node_modules/.test(frame.file))
+      .map(frame => ({
+        symbol: frame.symbol,
+        file: this.trimPath(frame.file!),
+        package: this.getNodeModulesPackage(frame.file!),
+      }));
+
+    const packages = new Set(this.uniquePackages(frames));
+    const quotedPackage = headerMatch[3].match(/(?:package|module) '((?:@[\w.-]+\/)?[\w.-]+)'/);
+    if (quotedPackage && !quotedPackage[1].startsWith('.')) {
+      packages.add(quotedPackage[1]);
+    }
+
+    return {
+      format: 'node',
+      exceptionType: headerMatch[1],
+      code: headerMatch[2],
+      message: this.normalizeMessage(headerMatch[3]),
+      frames: frames.slice(0, MAX_FRAMES),
+      packages: [...packages],
+    };
+  }
+
+  // Strip anything specific to the reporter's machine so the message matches other reports
+  private normalizeMessage(message: string): string {
+    return message
+      .replace(/file:\/\/\S+/g, '')
+      .replace(/(?:[A-Za-z]:)?(?:[\\/][\w.@+-]+){2,}(?::\d+)*/g, '')
+      .replace(/\b[\w.-]+(?:[\\/][\w.@+-]+)+\.\w+(?::\d+)*/g, '')
+      .replace(/\b0x[0-9a-f]+\b/gi, '')
+      .replace(/\bline \d+\b/gi, '')
+      .replace(/(['"`])\s*\1/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/\s+(?:imported from|from|at|in)\s*$/i, '')
+      .replace(/[\s,:;]+$/, '')
+      .trim();
+  }
+
+  private trimPath(file: string): string {
+    const libraryPath = file.match(/(?:node_modules|site-packages|dist-packages|pkg[\\/]mod)[\\/](.+)$/);
+    return libraryPath ? libraryPath[1] : file.split(/[\\/]/).pop() || file;
+  }
+
+  private getNodeModulesPackage(text: string): string | undefined {
+    const matches = [...text.matchAll(/node_modules[\\/]((?:@[\w.-]+[\\/])?[\w.-]+)/g)];
+    const last = matches.pop();
+    return last ? last[1].replace('\\', '/') : undefined;
+  }
+
+  private uniquePackages(frames: StackFrame[]): string[] {
+    return [...new Set(frames.map(frame => frame.package).filter((pkg): pkg is string => !!pkg))];
+  }
+}
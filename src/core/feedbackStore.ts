@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { FeedbackEntry, FeedbackVerdict, LearnedAdjustments, NormalizedResult, SourceId } from '../types/index.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+const defaultStorePath = path.join(os.homedir(), '.devscope', 'feedback.json');
+
+const FeedbackEntrySchema = z.object({
+  url: z.string(),
+  verdict: z.enum(['fixed', 'helpful', 'useless']),
+  source: z.string(),
+  problemType: z.string(),
+  repo: z.string().optional(),
+  subreddit: z.string().optional(),
+  tags: z.array(z.string()),
+  recordedAt: z.string(),
+});
+
+const FeedbackFileSchema = z.object({
+  entries: z.array(z.unknown()),
+});
+
+// What a returned result was about, kept so feedback on its URL can be generalized
+type ResultDetails = Omit<FeedbackEntry, 'url' | 'verdict' | 'recordedAt'>;
+
+// Fragments and trailing slashes do not make a different result
+export function normalizeFeedbackUrl(url: string): string {
+  return url.trim().replace(/#.*$/, '').replace(/\/+$/, '');
+}
+
+export function repoFromUrl(url: string): string | undefined {
+  const match = url.match(/github\.com\/([^/]+\/[^/#?]+)/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+// Verdicts recorded by the team, persisted as JSON so they survive restarts
+export class FeedbackStore {
+  private entries?: FeedbackEntry[];
+  private learned?: LearnedAdjustments;
+  private recentResults: Map<string, ResultDetails>;
+
+  constructor() {
+    this.recentResults = new Map();
+  }
+
+  // FEEDBACK_STORE_PATH is read on use so it can come from .env
+  get storePath(): string {
+    return process.env.FEEDBACK_STORE_PATH || defaultStorePath;
+  }
+
+  // Remember what returned results were about; feedback usually names a URL from the last few calls
+  remember(results: NormalizedResult[], problemType: string): void {
+    for (const result of results) {
+      const url = normalizeFeedbackUrl(result.url);
+      this.recentResults.delete(url);
+      this.recentResults.set(url, {
+        source: result.source,
+        problemType,
+        repo: result.source.startsWith('github') ? repoFromUrl(result.url) : undefined,
+        subreddit: result.subreddit?.toLowerCase(),
+        tags: result.source === 'stackoverflow' ? result.tags.map(tag => tag.toLowerCase()) : [],
+      });
+    }
+
+    const overflow = this.recentResults.size - filters.global.feedback.recentResults;
+    [...this.recentResults.keys()].slice(0, Math.max(overflow, 0)).forEach(url => this.recentResults.delete(url));
+  }
+
+  recentResult(url: string): ResultDetails | undefined {
+    return this.recentResults.get(normalizeFeedbackUrl(url));
+  }
+
+  record(url: string, verdict: FeedbackVerdict, details: ResultDetails): FeedbackEntry {
+    const entry: FeedbackEntry = {
+      url: normalizeFeedbackUrl(url),
+      verdict,
+      ...details,
+      recordedAt: new Date().toISOString(),
+    };
+
+    this.save([...this.load(), entry]);
+    return entry;
+  }
+
+  // Forget one URL, or everything; returns how many entries were removed
+  reset(url?: string): number {
+    const entries = this.load();
+    const kept = url ? entries.filter(entry => entry.url !== normalizeFeedbackUrl(url)) : [];
+    this.save(kept);
+    return entries.length - kept.length;
+  }
+
+  list(): FeedbackEntry[] {
+    return [...this.load()];
+  }
+
+  adjustments(): LearnedAdjustments {
+    if (!this.learned) {
+      this.learned = this.learn(this.load());
+    }
+    return this.learned;
+  }
+
+  private learn(entries: FeedbackEntry[]): LearnedAdjustments {
+    const settings = filters.global.feedback;
+    const points = (entry: FeedbackEntry) => settings.verdictPoints[entry.verdict] || 0;
+    const clamp = (value: number, max: number) => Math.max(-max, Math.min(max, value));
+
+    const net = (keyOf: (entry: FeedbackEntry) => string[]): Map<string, { points: number; count: number }> => {
+      const totals = new Map<string, { points: number; count: number }>();
+      for (const entry of entries) {
+        for (const key of keyOf(entry)) {
+          const total = totals.get(key) || { points: 0, count: 0 };
+          total.points += points(entry);
+          total.count++;
+          totals.set(key, total);
+        }
+      }
+      return totals;
+    };
+
+    const bonuses = (keyOf: (entry: FeedbackEntry) => string[], perPoint: number, max: number): Record<string, number> =>
+      Object.fromEntries([...net(keyOf)].map(([key, total]) => [key, clamp(total.points * perPoint, max)]));
+
+    // Source weights move with the average verdict, damped by a prior so one vote does little
+    const sourceWeights: Record<string, Record<SourceId, number>> = {};
+    for (const [key, total] of net(entry => [`${entry.problemType}\n${entry.source}`])) {
+      const [problemType, source] = key.split('\n');
+      const adjustment = clamp((total.points / (total.count + settings.priorCount)) * settings.sourceLearningRate, settings.maxSourceAdjustment);
+      sourceWeights[problemType] = { ...sourceWeights[problemType], [source]: 1 + adjustment };
+    }
+
+    return {
+      entries: entries.length,
+      sourceWeights,
+      urls: bonuses(entry => [entry.url], settings.urlBonusPerPoint, settings.maxUrlBonus),
+      repos: bonuses(entry => (entry.repo ? [entry.repo] : []), settings.entityBonusPerPoint, settings.maxEntityBonus),
+      subreddits: bonuses(entry => (entry.subreddit ? [entry.subreddit] : []), settings.entityBonusPerPoint, settings.maxEntityBonus),
+      tags: bonuses(entry => entry.tags, settings.entityBonusPerPoint, settings.maxEntityBonus),
+    };
+  }
+
+  private load(): FeedbackEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    if (!fs.existsSync(this.storePath)) {
+      this.entries = [];
+      return this.entries;
+    }
+
+    // Feedback is optional, so a store that cannot be used is logged and searches rank without it
+    let text: string;
+    try {
+      text = fs.readFileSync(this.storePath, 'utf-8');
+    } catch (error) {
+      console.error(`Cannot read feedback store ${this.storePath}, ranking without feedback:`, error instanceof Error ? error.message : error);
+      this.entries = [];
+      return this.entries;
+    }
+
+    let parsed: z.infer<typeof FeedbackFileSchema>;
+    try {
+      parsed = FeedbackFileSchema.parse(JSON.parse(text));
+    } catch (error) {
+      console.error(`Invalid feedback store ${this.storePath}:`, error instanceof Error ? error.message : error);
+      this.setAside();
+      this.entries = [];
+      return this.entries;
+    }
+
+    this.entries = parsed.entries.flatMap(entry => {
+      const valid = FeedbackEntrySchema.safeParse(entry);
+      return valid.success ? [valid.data] : [];
+    });
+    if (this.entries.length < parsed.entries.length) {
+      console.error(`Skipped ${parsed.entries.length - this.entries.length} invalid entries in feedback store ${this.storePath}`);
+    }
+    return this.entries;
+  }
+
+  // Keeps the unreadable file for inspection, so the next recorded verdict starts a fresh one
+  private setAside(): void {
+    const asidePath = `${this.storePath}.invalid-${Date.now()}`;
+    try {
+      fs.renameSync(this.storePath, asidePath);
+      console.error(`Moved the invalid feedback store to ${asidePath}`);
+    } catch (error) {
+      console.error(`Cannot move the invalid feedback store aside:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private save(entries: FeedbackEntry[]): void {
+    fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+    fs.writeFileSync(this.storePath, JSON.stringify({ entries }, null, 2));
+    this.entries = entries;
+    this.learned = undefined;
+  }
+}
+
+export const feedbackStore = new FeedbackStore();
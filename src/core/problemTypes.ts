@@ -0,0 +1,68 @@
+import type { ProblemType, ProblemTypeDistribution } from './queryAnalyzer.js';
+
+// Share at which a problem type is treated as the majority reading of the query
+export const MAJORITY_SHARE = 0.5;
+
+// Callers that only know a single label get a distribution with all weight on it
+export function distributionFor(problemType?: ProblemType, problemTypes?: ProblemTypeDistribution): ProblemTypeDistribution {
+  if (problemTypes) {
+    return problemTypes;
+  }
+  return problemType ? { [problemType]: 1 } : {};
+}
+
+// Combined share of the given types
+export function shareOf(distribution: ProblemTypeDistribution, ...types: ProblemType[]): number {
+  return types.reduce((sum, type) => sum + (distribution[type] || 0), 0);
+}
+
+// Weighted average of a per-type value; types without a value, the unknown share
+// and any missing weight all fall back to the default
+export function blend(
+  distribution: ProblemTypeDistribution,
+  valueFor: (type: ProblemType) => number | undefined,
+  fallback: number
+): number {
+  let total = 0;
+  let blended = 0;
+
+  for (const [type, share] of Object.entries(distribution) as Array<[ProblemType, number]>) {
+    const value = valueFor(type);
+    total += share;
+    blended += share * (value ?? fallback);
+  }
+
+  return blended + Math.max(0, 1 - total) * fallback;
+}
+
+// Blends a filters.json qualityThresholds block: numbers are averaged over the
+// per-type overrides, flags hold when types setting them carry the majority
+export function blendThresholds(
+  thresholds: Record<string, any>,
+  distribution: ProblemTypeDistribution
+): Record<string, any> {
+  const overrides = (type: ProblemType): Record<string, any> =>
+    thresholds[type] && typeof thresholds[type] === 'object' ? thresholds[type] : {};
+
+  const keys = new Set<string>(Object.keys(thresholds).filter(key => typeof thresholds[key] !== 'object'));
+  for (const type of Object.keys(distribution) as ProblemType[]) {
+    Object.keys(overrides(type)).forEach(key => keys.add(key));
+  }
+
+  const blended: Record<string, any> = {};
+  for (const key of keys) {
+    const base = thresholds[key];
+    const isFlag = typeof base === 'boolean' || Object.values(thresholds).some(value => typeof value?.[key] === 'boolean');
+
+    if (isFlag) {
+      const share = blend(distribution, type => (overrides(type)[key] === undefined ? undefined : Number(overrides(type)[key])), Number(base ?? false));
+      blended[key] = share >= MAJORITY_SHARE;
+    } else if (typeof base === 'number') {
+      const value = blend(distribution, type => overrides(type)[key], base);
+      // Counts stay whole numbers; ratios keep two decimals
+      blended[key] = Number.isInteger(base) ? Math.round(value) : Math.round(value * 100) / 100;
+    }
+  }
+
+  return blended;
+}
@@ -1,3 +1,17 @@
+import { sourceRegistry } from '../adapters/registry.js';
+import { ErrorSignature, WorkspaceContext } from '../types/index.js';
+import { ErrorLogParser } from './errorLogParser.js';
+import { MAJORITY_SHARE, blend, shareOf } from './problemTypes.js';
+import { taxonomy } from './taxonomy.js';
+import { VersionExtractor } from './versionExtractor.js';
+
+// Workspace technologies searched for when the query itself names none
+const MAX_WORKSPACE_TECHNOLOGIES = 2;
+// Pseudo-count of pattern hits on the unknown type, so one matching word is not certainty
+const UNKNOWN_PRIOR = 1;
+// Share a problem type needs before it adds its own strategy tweaks
+const STRATEGY_SHARE = 0.25;
+
 export enum ProblemType {
   CONFIGURATION = 'configuration',
   BUG_REPORT = 'bug',
@@ -7,18 +21,46 @@ export enum ProblemType {
   UNKNOWN = 'unknown'
 }
 
+// Share of the query attributed to each problem type; shares sum to 1
+export type ProblemTypeDistribution = Partial<Record<ProblemType, number>>;
+
 export interface QueryAnalysis {
   originalQuery: string;
+  // What is actually sent to the sources; condensed when the query is a pasted error log
+  searchQuery: string;
+  errorSignature?: ErrorSignature;
+  // Most likely problem type; problemTypes holds the full distribution
   problemType: ProblemType;
+  problemTypes: ProblemTypeDistribution;
+  // Share of the most likely type, 0 when no pattern matched
+  confidence: number;
   technologies: string[];
   versions: string[];
+  // Version in use per technology, from the query or the caller's workspace
+  technologyVersions: Record<string, string>;
+  workspace?: WorkspaceContext;
   errorPatterns: string[];
   specificity: 'generic' | 'specific' | 'edge-case';
-  searchStrategies: {
-    github: GitHubSearchStrategy;
-    stackoverflow: StackOverflowSearchStrategy;
-    reddit: RedditSearchStrategy;
-  };
+  searchStrategies: SearchStrategies;
+  // Alternative phrasings used for the second search round in thorough mode
+  reformulatedQueries: string[];
+}
+
+// Strategies keyed by source id; built-in sources keep their typed shapes
+export type SearchStrategies = Record<string, unknown> & {
+  github?: GitHubSearchStrategy;
+  'github-discussions'?: GitHubSearchStrategy;
+  stackoverflow?: StackOverflowSearchStrategy;
+  reddit?: RedditSearchStrategy;
+  hackernews?: HackerNewsSearchStrategy;
+};
+
+export interface StrategyContext {
+  query: string;
+  problemType: ProblemType;
+  problemTypes: ProblemTypeDistribution;
+  technologies: string[];
+  versions: string[];
 }
 
 export interface GitHubSearchStrategy {
@@ -30,6 +72,8 @@ export interface GitHubSearchStrategy {
 
 export interface StackOverflowSearchStrategy {
   query: string;
+  // Stack Exchange site parameters, searched in order
+  sites: string[];
   tags: string[];
   requireAnswered: boolean;
   sortBy: string;
@@ -42,58 +86,59 @@ export interface RedditSearchStrategy {
   minEngagement: number;
 }
 
+export interface HackerNewsSearchStrategy {
+  query: string;
+  tags: string[];
+}
+
 export class QueryAnalyzer {
-  private technologyPatterns!: Map<string, string[]>;
   private versionPatterns!: RegExp[];
   private errorPatterns!: RegExp[];
   private problemTypePatterns!: Map<ProblemType, RegExp[]>;
+  private errorLogParser: ErrorLogParser;
+  private versionExtractor: VersionExtractor;
 
   constructor() {
     this.initializePatterns();
+    this.errorLogParser = new ErrorLogParser();
+    this.versionExtractor = new VersionExtractor();
   }
 
-  analyze(query: string): QueryAnalysis {
-    const problemType = this.classifyProblemType(query);
-    const technologies = this.extractTechnologies(query);
-    const versions = this.extractVersions(query);
-    const errorPatterns = this.extractErrorPatterns(query);
+  analyze(query: string, workspace?: WorkspaceContext): QueryAnalysis {
+    const errorSignature = this.errorLogParser.parse(query) || undefined;
+    const searchQuery = errorSignature ? this.errorLogParser.buildSearchQuery(errorSignature) || query : query;
+
+    const { problemType, problemTypes, confidence } = this.classifyProblemType(query);
+    const technologies = this.extractTechnologies(query, workspace);
+    const versions = this.extractVersions(searchQuery);
+    const technologyVersions = this.getTechnologyVersions(query, technologies, workspace);
+    const errorPatterns = this.extractErrorPatterns(query, errorSignature);
     const specificity = this.assessSpecificity(query, technologies, versions);
 
     return {
       originalQuery: query,
+      searchQuery,
+      errorSignature,
       problemType,
+      problemTypes,
+      confidence,
       technologies,
       versions,
+      technologyVersions,
+      workspace,
       errorPatterns,
       specificity,
-      searchStrategies: this.generateSearchStrategies(query, problemType, technologies, versions)
+      searchStrategies: this.generateSearchStrategies(searchQuery, problemType, problemTypes, technologies, versions),
+      reformulatedQueries: this.generateReformulations(searchQuery, versions, technologies, technologyVersions)
     };
   }
 
-  private initializePatterns(): void {
-    this.technologyPatterns = new Map([
-      ['react', ['react', 'reactjs', 'jsx', 'tsx']],
-      ['next.js', ['next.js', 'nextjs', 'next', 'vercel']],
-      ['vue', ['vue', 'vuejs', 'vue.js']],
-      ['angular', ['angular', 'angularjs']],
-      ['node.js', ['node.js', 'nodejs', 'node']],
-      ['typescript', ['typescript', 'ts']],
-      ['javascript', ['javascript', 'js']],
-      ['vite', ['vite', 'vitejs']],
-      ['webpack', ['webpack']],
-      ['docker', ['docker', 'dockerfile']],
-      ['prisma', ['prisma']],
-      ['mongodb', ['mongodb', 'mongo']],
-      ['postgresql', ['postgresql', 'postgres']],
-      ['redis', ['redis']],
-      ['aws', ['aws', 'amazon web services']],
-      ['kubernetes', ['kubernetes', 'k8s']],
-      ['python', ['python']],
-      ['django', ['django']],
-      ['flask', ['flask']],
-      ['git', ['git', 'github', 'gitlab']]
-    ]);
+  // Strategies for an alternative query that reuse the original analysis
+  strategiesForQuery(query: string, analysis: QueryAnalysis): SearchStrategies {
+    return this.generateSearchStrategies(query, analysis.problemType, analysis.problemTypes, analysis.technologies, analysis.versions);
+  }
 
+  private initializePatterns(): void {
     this.versionPatterns = [
       /v?(\d+\.\d+(?:\.\d+)?)/g,
       /(?:version|ver)\s*(\d+\.\d+(?:\.\d+)?)/gi,
@@ -150,7 +195,7 @@ export class QueryAnalyzer {
       [ProblemType.COMPATIBILITY, [
         /compatibility/gi,
         /version/gi,
-        /upgrade/gi,
+        /upgrad(?:e|ed|ing)/gi,
         /migration/gi,
         /deprecated/gi,
         /breaking\s+change/gi
@@ -166,7 +211,7 @@ export class QueryAnalyzer {
     ]);
   }
 
-  private classifyProblemType(query: string): ProblemType {
+  private classifyProblemType(query: string): { problemType: ProblemType; problemTypes: ProblemTypeDistribution; confidence: number } {
     const scores = new Map<ProblemType, number>();
 
     // Calculate base scores for each problem type
@@ -206,23 +251,43 @@ export class QueryAnalyzer {
       }
     }
 
-    return bestScore > 0 ? bestType : ProblemType.UNKNOWN;
+    if (bestScore === 0) {
+      return { problemType: ProblemType.UNKNOWN, problemTypes: { [ProblemType.UNKNOWN]: 1 }, confidence: 0 };
+    }
+
+    // Queries often mix types ("memory leak after upgrading"), so every matching type keeps its share
+    const total = [...scores.values()].reduce((sum, score) => sum + score, 0) + UNKNOWN_PRIOR;
+    const problemTypes: ProblemTypeDistribution = {};
+    for (const [type, score] of scores) {
+      if (score > 0) {
+        problemTypes[type] = score / total;
+      }
+    }
+    problemTypes[ProblemType.UNKNOWN] = UNKNOWN_PRIOR / total;
+
+    return { problemType: bestType, problemTypes, confidence: bestScore / total };
   }
 
-  private extractTechnologies(query: string): string[] {
-    const found: string[] = [];
-    const queryLower = query.toLowerCase();
+  private extractTechnologies(query: string, workspace?: WorkspaceContext): string[] {
+    const mentioned = taxonomy.detect(query);
+    if (mentioned.length > 0 || !workspace) {
+      return mentioned;
+    }
 
-    for (const [tech, aliases] of this.technologyPatterns) {
-      for (const alias of aliases) {
-        if (queryLower.includes(alias.toLowerCase())) {
-          found.push(tech);
-          break;
-        }
-      }
+    // "why does build fail" names nothing, so search for the project's main stack
+    return workspace.technologies.slice(0, MAX_WORKSPACE_TECHNOLOGIES);
+  }
+
+  private getTechnologyVersions(query: string, technologies: string[], workspace?: WorkspaceContext): Record<string, string> {
+    const versions: Record<string, string> = { ...workspace?.versions };
+
+    // A version named in the query is what the caller is asking about, even if the workspace differs
+    const fallback = technologies.length === 1 ? technologies[0] : undefined;
+    for (const version of this.versionExtractor.extract(query, fallback)) {
+      versions[version.technology] = version.version;
     }
 
-    return [...new Set(found)];
+    return versions;
   }
 
   private extractVersions(query: string): string[] {
@@ -238,9 +303,16 @@ export class QueryAnalyzer {
     return [...new Set(versions)];
   }
 
-  private extractErrorPatterns(query: string): string[] {
+  private extractErrorPatterns(query: string, errorSignature?: ErrorSignature): string[] {
     const patterns: string[] = [];
 
+    // Parsed error details are far more specific than keyword hits
+    if (errorSignature) {
+      [errorSignature.code, errorSignature.exceptionType, errorSignature.message]
+        .filter((part): part is string => !!part)
+        .forEach(part => patterns.push(part));
+    }
+
     for (const pattern of this.errorPatterns) {
       const matches = query.match(pattern);
       if (matches) {
@@ -251,6 +323,56 @@ export class QueryAnalyzer {
     return [...new Set(patterns)];
   }
 
+  private generateReformulations(
+    query: string,
+    versions: string[],
+    technologies: string[],
+    technologyVersions: Record<string, string>
+  ): string[] {
+    const reformulations: string[] = [];
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+    // Name the major version the project runs when the query does not mention one
+    const primaryTechnology = technologies.find(technology => technologyVersions[technology]);
+    if (primaryTechnology && versions.length === 0) {
+      const major = technologyVersions[primaryTechnology].split('.')[0];
+      reformulations.push(normalize(`${query} ${primaryTechnology} ${major}`));
+    }
+
+    // Drop version numbers so results about neighbouring releases are found too
+    if (versions.length > 0) {
+      const withoutVersions = normalize(
+        query
+          .replace(/(?:version|ver)\s*v?\d+(?:\.\d+)*/gi, '')
+          .replace(/\bv?\d+\.\d+(?:\.\d+)?\b/g, '')
+          .replace(/\b(react|node|next\.?js)\s+\d+\b/gi, '$1')
+      );
+      if (withoutVersions.length > 0) {
+        reformulations.push(withoutVersions);
+      }
+    }
+
+    // Search only on the error message itself
+    const errorStrings: string[] = [];
+    const errorMessageRegex = /\b([A-Z]\w*(?:Error|Exception)):\s*([^\n]+)/g;
+    const quotedRegex = /["'`]([^"'`\n]{12,})["'`]/g;
+    let match;
+
+    while ((match = errorMessageRegex.exec(query)) !== null) {
+      errorStrings.push(`${match[1]}: ${match[2].trim()}`);
+    }
+    while ((match = quotedRegex.exec(query)) !== null) {
+      errorStrings.push(match[1].trim());
+    }
+
+    if (errorStrings.length > 0) {
+      reformulations.push(normalize(errorStrings[0]));
+    }
+
+    const original = normalize(query).toLowerCase();
+    return [...new Set(reformulations)].filter(text => text.toLowerCase() !== original);
+  }
+
   private assessSpecificity(query: string, technologies: string[], versions: string[]): 'generic' | 'specific' | 'edge-case' {
     const wordCount = query.split(/\s+/).length;
     const techCount = technologies.length;
@@ -270,21 +392,34 @@ export class QueryAnalyzer {
   private generateSearchStrategies(
     query: string, 
     problemType: ProblemType, 
+    problemTypes: ProblemTypeDistribution,
     technologies: string[], 
-    _versions: string[]
-  ): QueryAnalysis['searchStrategies'] {
-    return {
-      github: this.generateGitHubStrategy(query, problemType, technologies, _versions),
-      stackoverflow: this.generateStackOverflowStrategy(query, problemType, technologies),
-      reddit: this.generateRedditStrategy(query, problemType, technologies)
+    versions: string[]
+  ): SearchStrategies {
+    const context: StrategyContext = { query, problemType, problemTypes, technologies, versions };
+    const builtInStrategies: Record<string, (context: StrategyContext) => unknown> = {
+      github: () => this.generateGitHubStrategy(query, problemTypes, technologies),
+      'github-discussions': () => this.generateGitHubStrategy(query, problemTypes, technologies),
+      stackoverflow: () => this.generateStackOverflowStrategy(query, problemTypes, technologies),
+      reddit: () => this.generateRedditStrategy(query, problemTypes, technologies),
+      hackernews: () => this.generateHackerNewsStrategy(query, problemTypes)
     };
+
+    const strategies: SearchStrategies = {};
+    for (const registration of sourceRegistry.list()) {
+      const build = registration.buildStrategy || builtInStrategies[registration.id];
+      if (build) {
+        strategies[registration.id] = build(context);
+      }
+    }
+
+    return strategies;
   }
 
   private generateGitHubStrategy(
     query: string, 
-    problemType: ProblemType, 
-    technologies: string[], 
-    _versions: string[]
+    problemTypes: ProblemTypeDistribution, 
+    technologies: string[]
   ): GitHubSearchStrategy {
     let searchQuery = query;
     const excludePatterns = [
@@ -295,11 +430,16 @@ export class QueryAnalyzer {
     ];
 
     const prioritizeTypes = ['type:issue'];
+    const bugShare = shareOf(problemTypes, ProblemType.BUG_REPORT);
     
-    if (problemType === ProblemType.BUG_REPORT) {
+    if (bugShare >= STRATEGY_SHARE) {
       prioritizeTypes.push('label:bug');
+    }
+    // Feature requests are only noise once the query is mostly a bug report
+    if (bugShare >= MAJORITY_SHARE) {
       excludePatterns.push('-label:enhancement');
-    } else if (problemType === ProblemType.CONFIGURATION) {
+    }
+    if (shareOf(problemTypes, ProblemType.CONFIGURATION) >= STRATEGY_SHARE) {
       prioritizeTypes.push('label:question', 'label:help');
     }
 
@@ -315,33 +455,32 @@ export class QueryAnalyzer {
       query: searchQuery,
       excludePatterns,
       prioritizeTypes,
-      qualityThreshold: problemType === ProblemType.BUG_REPORT ? 2 : 1
+      qualityThreshold: Math.round(blend(problemTypes, type => (type === ProblemType.BUG_REPORT ? 2 : undefined), 1))
     };
   }
 
   private generateStackOverflowStrategy(
     query: string, 
-    problemType: ProblemType, 
+    problemTypes: ProblemTypeDistribution, 
     technologies: string[]
   ): StackOverflowSearchStrategy {
-    const tags = technologies.filter(tech => 
-      ['javascript', 'typescript', 'react', 'node.js', 'python', 'java'].includes(tech)
-    );
+    const tags = taxonomy.stackOverflowTags(technologies);
 
     return {
       query,
+      sites: this.getStackExchangeSites(query, problemTypes, technologies),
       tags,
-      requireAnswered: problemType === ProblemType.CONFIGURATION || problemType === ProblemType.BEST_PRACTICE,
-      sortBy: problemType === ProblemType.BUG_REPORT ? 'activity' : 'relevance'
+      requireAnswered: shareOf(problemTypes, ProblemType.CONFIGURATION, ProblemType.BEST_PRACTICE) >= MAJORITY_SHARE,
+      sortBy: shareOf(problemTypes, ProblemType.BUG_REPORT) >= MAJORITY_SHARE ? 'activity' : 'relevance'
     };
   }
 
   private generateRedditStrategy(
     query: string, 
-    problemType: ProblemType, 
+    problemTypes: ProblemTypeDistribution, 
     technologies: string[]
   ): RedditSearchStrategy {
-    const subreddits = this.getRelevantSubreddits(technologies, problemType);
+    const subreddits = this.getRelevantSubreddits(technologies, problemTypes);
     const excludeFlairs = [
       'Showcase',
       'Career',
@@ -349,7 +488,7 @@ export class QueryAnalyzer {
       'Beginner Question'
     ];
 
-    if (problemType === ProblemType.BEST_PRACTICE) {
+    if (shareOf(problemTypes, ProblemType.BEST_PRACTICE) >= STRATEGY_SHARE) {
       excludeFlairs.push('Rant');
     }
 
@@ -357,56 +496,66 @@ export class QueryAnalyzer {
       query,
       subreddits,
       excludeFlairs,
-      minEngagement: problemType === ProblemType.BUG_REPORT ? 5 : 10
+      minEngagement: Math.round(blend(problemTypes, type => (type === ProblemType.BUG_REPORT ? 5 : undefined), 10))
     };
   }
 
-  private getRepositoryHints(technologies: string[]): string[] {
-    const repoMap: Record<string, string> = {
-      'react': 'repo:facebook/react',
-      'next.js': 'repo:vercel/next.js',
-      'vite': 'repo:vitejs/vite',
-      'vue': 'repo:vuejs/vue',
-      'angular': 'repo:angular/angular',
-      'typescript': 'repo:microsoft/TypeScript',
-      'prisma': 'repo:prisma/prisma'
+  private generateHackerNewsStrategy(
+    query: string, 
+    problemTypes: ProblemTypeDistribution
+  ): HackerNewsSearchStrategy {
+    // Trade-off questions are often asked directly as Ask HN threads
+    const isDiscussion = shareOf(problemTypes, ProblemType.BEST_PRACTICE, ProblemType.PERFORMANCE) >= STRATEGY_SHARE;
+
+    return {
+      query,
+      tags: isDiscussion ? ['ask_hn', 'story'] : ['story']
     };
+  }
+
+  private getStackExchangeSites(query: string, problemTypes: ProblemTypeDistribution, technologies: string[]): string[] {
+    // Topics that are not technologies of their own; technologies carry their sites in the taxonomy
+    const keywordSites: Array<[RegExp, string]> = [
+      [/\b(apache|haproxy|iptables|dns|load balancer|ssl certificate)\b/i, 'serverfault'],
+      [/\b(sql server|query plan|deadlock|replication)\b/i, 'dba'],
+      [/\b(sed|awk|cron)\b/i, 'unix'],
+      [/\b(apt|snap)\b/i, 'askubuntu'],
+      [/\b(terminal)\b/i, 'superuser']
+    ];
 
-    return technologies
-      .map(tech => repoMap[tech])
-      .filter(Boolean);
+    const sites = new Set<string>(taxonomy.stackExchangeSites(technologies));
+    keywordSites.forEach(([pattern, site]) => {
+      if (pattern.test(query)) {
+        sites.add(site);
+      }
+    });
+
+    // Setup and tuning questions are answered by admins first; code problems by Stack Overflow
+    const adminFirst = shareOf(problemTypes, ProblemType.CONFIGURATION, ProblemType.PERFORMANCE) >= MAJORITY_SHARE;
+    const ordered = adminFirst
+      ? [...sites, 'stackoverflow']
+      : ['stackoverflow', ...sites];
+
+    return [...new Set(ordered)].slice(0, 3);
+  }
+
+  private getRepositoryHints(technologies: string[]): string[] {
+    return taxonomy.githubRepos(technologies).map(repo => `repo:${repo}`);
   }
 
-  private getRelevantSubreddits(technologies: string[], problemType: ProblemType): string[] {
+  private getRelevantSubreddits(technologies: string[], problemTypes: ProblemTypeDistribution): string[] {
     const subreddits = new Set<string>();
 
     // Technology-specific subreddits
-    const techSubreddits: Record<string, string[]> = {
-      'react': ['reactjs', 'reactnative'],
-      'next.js': ['nextjs', 'reactjs'],
-      'vue': ['vuejs'],
-      'angular': ['angular', 'angularjs'],
-      'node.js': ['node', 'nodejs'],
-      'javascript': ['javascript', 'webdev'],
-      'typescript': ['typescript'],
-      'python': ['python', 'learnpython'],
-      'docker': ['docker', 'devops']
-    };
-
-    technologies.forEach(tech => {
-      const subs = techSubreddits[tech];
-      if (subs) {
-        subs.forEach(sub => subreddits.add(sub));
-      }
-    });
+    taxonomy.subreddits(technologies).forEach(sub => subreddits.add(sub));
 
     // Add general programming subreddits based on problem type
-    if (problemType === ProblemType.BUG_REPORT || problemType === ProblemType.CONFIGURATION) {
+    if (shareOf(problemTypes, ProblemType.BUG_REPORT, ProblemType.CONFIGURATION) >= STRATEGY_SHARE) {
       subreddits.add('programming');
       subreddits.add('askprogramming');
     }
 
-    if (problemType === ProblemType.BEST_PRACTICE) {
+    if (shareOf(problemTypes, ProblemType.BEST_PRACTICE) >= STRATEGY_SHARE) {
       subreddits.add('codereview');
       subreddits.add('programming');
     }
@@ -1,5 +1,11 @@
-import { NormalizedResult, RankedResult } from '../types/index.js';
-import { ProblemType } from './queryAnalyzer.js';
+import { DeprecatedUsage, LearnedAdjustments, NormalizedResult, RankedResult, RankingOverrides, ScoreWeights, TechnologyVersion, VersionMatch } from '../types/index.js';
+import { ProblemType, ProblemTypeDistribution } from './queryAnalyzer.js';
+import { blend } from './problemTypes.js';
+import { BM25Document, BM25Index } from './bm25.js';
+import { normalizeFeedbackUrl, repoFromUrl } from './feedbackStore.js';
+import { deprecations as deprecationCatalog } from './deprecations.js';
+import { sourceRegistry } from '../adapters/registry.js';
+import { SemVer, compareSemVer, isSameRelease, parseSemVer } from '../utils/semver.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
@@ -11,74 +17,103 @@ const __dirname = path.dirname(__filename);
 const filtersPath = path.join(__dirname, '../config/filters.json');
 const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
 
+type BlendedWeight = 'relevance' | 'recency' | 'community';
+
+const DEFAULT_WEIGHTS: Record<BlendedWeight, number> = { relevance: 0.35, recency: 0.25, community: 0.20 };
+// Source preference only nudges results that are otherwise close
+const SOURCE_WEIGHT = 0.05;
+
 export class ResultRanker {
+  // Original case, so the tokenizer can split camelCase identifiers
   private query: string;
-  private problemType?: ProblemType;
+  private lowerQuery: string;
+  // Every weight below is blended across the query's problem types
+  private problemTypes: ProblemTypeDistribution;
+  // From a ranking profile and the call's own overrides; they take precedence over filters.json
+  private overrides: RankingOverrides;
+  // What the team's recorded feedback taught about sources and specific results
+  private feedback?: LearnedAdjustments;
+  private weights: ScoreWeights;
+  private targetVersions: Map<string, SemVer>;
 
-  constructor(query: string, problemType?: ProblemType) {
-    this.query = query.toLowerCase();
-    this.problemType = problemType;
+  constructor(
+    query: string,
+    problemTypes: ProblemTypeDistribution = {},
+    technologyVersions: Record<string, string> = {},
+    overrides: RankingOverrides = {},
+    feedback?: LearnedAdjustments
+  ) {
+    this.query = query;
+    this.lowerQuery = query.toLowerCase();
+    this.problemTypes = problemTypes;
+    this.overrides = overrides;
+    this.feedback = feedback;
+    this.weights = this.getScoreWeights();
+    this.targetVersions = new Map();
+    for (const [technology, version] of Object.entries(technologyVersions)) {
+      const parsed = parseSemVer(version);
+      if (parsed) {
+        this.targetVersions.set(technology, parsed);
+      }
+    }
   }
 
   rankResults(results: NormalizedResult[]): RankedResult[] {
-    return results.map(result => {
-      const relevanceScore = this.calculateRelevanceScore(result);
+    // IDF depends on the whole result set, so relevance is scored against one index
+    const relevanceIndex = new BM25Index(results.map(result => this.toDocument(result)), filters.global.relevance);
+
+    return results.map((result, index) => {
+      const relevanceScore = relevanceIndex.score(this.query, index);
       const recencyScore = this.calculateRecencyScore(result);
       const communityScore = this.calculateCommunityScore(result);
       const sourceScore = this.calculateSourceScore(result);
+      const sourceMultiplier = this.getLearnedSourceMultiplier(result);
 
       // Problem-type aware weighted scoring
-      const weights = this.getScoreWeights();
+      const weights = this.weights;
       const acceptedBonus = this.getAcceptedBonus(result);
+      const { versionMatch, upgradeTo, bonus: versionBonus } = this.scoreVersions(result);
+      const feedbackBonus = this.getFeedbackBonus(result);
+      const { deprecations, penalty: deprecationPenalty } = this.scoreDeprecations(result);
       
+      // Learned source quality scales the weighted components, so it can reorder results
       const finalScore = 
-        relevanceScore * weights.relevance +
-        recencyScore * weights.recency +
-        communityScore * weights.community +
+        (relevanceScore * weights.relevance +
+          recencyScore * weights.recency +
+          communityScore * weights.community +
+          sourceScore * weights.source) * sourceMultiplier +
         acceptedBonus +
-        sourceScore * 0.05;
+        versionBonus +
+        feedbackBonus +
+        deprecationPenalty;
 
       return {
         ...result,
         relevanceScore,
         recencyScore,
         communityScore,
+        sourceScore,
+        sourceMultiplier,
+        acceptedBonus,
+        versionBonus,
+        feedbackBonus,
+        deprecationPenalty,
         finalScore,
+        versionMatch,
+        upgradeTo,
+        deprecations,
       };
     }).sort((a, b) => b.finalScore - a.finalScore);
   }
 
-  private calculateRelevanceScore(result: NormalizedResult): number {
-    const queryWords = this.query.split(/\s+/);
-    const titleLower = result.title.toLowerCase();
-    const contentLower = result.content.toLowerCase();
-
-    let score = 0;
-
-    // Title matches are worth more
-    queryWords.forEach(word => {
-      if (titleLower.includes(word)) {
-        score += 10;
-      }
-      if (contentLower.includes(word)) {
-        score += 2;
-      }
-    });
-
-    // Exact phrase match in title
-    if (titleLower.includes(this.query)) {
-      score += 20;
-    }
-
-    // Tag matches
-    result.tags.forEach(tag => {
-      if (this.query.includes(tag.toLowerCase()) || tag.toLowerCase().includes(this.query)) {
-        score += 5;
-      }
-    });
-
-    // Normalize to 0-100
-    return Math.min(score, 100);
+  private toDocument(result: NormalizedResult): BM25Document {
+    // Code is its own field so an identifier in a snippet does not count as prose
+    return {
+      title: result.title,
+      body: result.content.replace(/```[\s\S]*?```/g, ' '),
+      tags: result.tags.join(' '),
+      code: result.codeSnippets.map(snippet => snippet.code).join('\n'),
+    };
   }
 
   private calculateRecencyScore(result: NormalizedResult): number {
@@ -90,8 +125,12 @@ export class ResultRanker {
     const relevantDate = Math.max(created, updated);
     const daysSince = (now - relevantDate) / (1000 * 60 * 60 * 24);
 
+    return blend(this.problemTypes, type => this.getRecencyCurve(type, daysSince), this.getRecencyCurve(undefined, daysSince));
+  }
+
+  private getRecencyCurve(problemType: ProblemType | undefined, daysSince: number): number {
     // Problem-type aware recency scoring
-    if (this.problemType === ProblemType.BUG_REPORT || this.problemType === ProblemType.COMPATIBILITY) {
+    if (problemType === ProblemType.BUG_REPORT || problemType === ProblemType.COMPATIBILITY) {
       // More aggressive recency for bugs and compatibility issues
       if (daysSince < 7) return 100;
       if (daysSince < 30) return 85;
@@ -99,7 +138,7 @@ export class ResultRanker {
       if (daysSince < 180) return 30;
       if (daysSince < 365) return 15;
       return 5;
-    } else if (this.problemType === ProblemType.BEST_PRACTICE) {
+    } else if (problemType === ProblemType.BEST_PRACTICE) {
       // Best practices can be older and still valuable
       if (daysSince < 30) return 100;
       if (daysSince < 180) return 90;
@@ -132,23 +171,44 @@ export class ResultRanker {
       score += 25;
     }
 
+    // Bonus for an author the community trusts, so equal votes favour a maintainer or high-rep user
+    score += this.getAuthorityBonus(result);
+
     // Normalize to 0-100
     return Math.min(score, 100);
   }
 
-  private getScoreWeights(): { relevance: number; recency: number; community: number } {
-    if (!this.problemType) {
-      // Default weights
-      return { relevance: 0.35, recency: 0.25, community: 0.20 };
-    }
-    
-    const weights = filters.global.problemTypeWeights[this.problemType];
-    if (weights) {
-      return weights;
+  private getAuthorityBonus(result: NormalizedResult): number {
+    const settings = filters.global.authority;
+    const authority = result.authority;
+    if (!authority) {
+      return 0;
     }
-    
-    // Fallback to default
-    return { relevance: 0.35, recency: 0.25, community: 0.20 };
+
+    const roleBonus = authority.role ? settings.roleBonus[authority.role] || 0 : 0;
+    const tier = settings.reputationTiers.find((tier: { minReputation: number }) => (authority.reputation || 0) >= tier.minReputation);
+    return Math.min(Math.max(roleBonus, tier?.bonus || 0), settings.maxBonus);
+  }
+
+  // Weights actually applied, after blending across problem types
+  get scoreWeights(): ScoreWeights {
+    return { ...this.weights };
+  }
+
+  private getScoreWeights(): ScoreWeights {
+    // Types without configured weights, including unknown, use the defaults
+    const weightFor = (key: BlendedWeight) => this.overrides.weights?.[key] ?? blend(
+      this.problemTypes,
+      type => this.overrides.problemTypeWeights?.[type]?.[key] ?? filters.global.problemTypeWeights[type]?.[key],
+      DEFAULT_WEIGHTS[key]
+    );
+
+    return {
+      relevance: weightFor('relevance'),
+      recency: weightFor('recency'),
+      community: weightFor('community'),
+      source: this.overrides.weights?.source ?? SOURCE_WEIGHT,
+    };
   }
   
   private getAcceptedBonus(result: NormalizedResult): number {
@@ -157,27 +217,146 @@ export class ResultRanker {
     }
     
     // Higher bonus for accepted answers in configuration/practice queries
-    if (this.problemType === ProblemType.CONFIGURATION || this.problemType === ProblemType.BEST_PRACTICE) {
-      return 20;
-    } else if (this.problemType === ProblemType.BUG_REPORT) {
-      return 15;
+    return blend(this.problemTypes, type => {
+      if (type === ProblemType.CONFIGURATION || type === ProblemType.BEST_PRACTICE) {
+        return 20;
+      } else if (type === ProblemType.BUG_REPORT) {
+        return 15;
+      }
+      return undefined;
+    }, 12); // Default bonus
+  }
+
+  // Compare the versions a result is about with the ones the caller runs
+  private scoreVersions(result: NormalizedResult): { versionMatch?: VersionMatch; upgradeTo?: TechnologyVersion; bonus: number } {
+    const bonuses = filters.global.versionMatch;
+    let versionMatch: VersionMatch | undefined;
+    let upgradeTo: TechnologyVersion | undefined;
+    let bonus = 0;
+
+    // The closest match across technologies describes the result
+    const matchOrder: VersionMatch[] = ['exact', 'same-major', 'other-major'];
+    for (const version of result.versions || []) {
+      const target = this.targetVersions.get(version.technology);
+      if (!target) {
+        continue;
+      }
+
+      const match: VersionMatch = isSameRelease(version, target)
+        ? 'exact'
+        : version.major === target.major ? 'same-major' : 'other-major';
+      bonus += match === 'exact' ? bonuses.exact : match === 'same-major' ? bonuses.sameMajor : bonuses.otherMajor;
+      if (!versionMatch || matchOrder.indexOf(match) < matchOrder.indexOf(versionMatch)) {
+        versionMatch = match;
+      }
     }
-    
-    return 12; // Default bonus
+
+    // A fix in a newer release is actionable; one we already run is probably not our problem
+    const fixTarget = result.fixedIn && this.targetVersions.get(result.fixedIn.technology);
+    if (result.fixedIn && fixTarget) {
+      const order = compareSemVer(fixTarget, result.fixedIn);
+      if (order >= 0) {
+        bonus += bonuses.alreadyFixed;
+      } else if (!isSameRelease(fixTarget, result.fixedIn)) {
+        upgradeTo = result.fixedIn;
+        bonus += bonuses.needsUpgrade;
+      }
+      // Otherwise the target is too vague to tell, e.g. "5" against a fix in 5.0.3
+    }
+
+    return { versionMatch, upgradeTo, bonus };
   }
 
-  private calculateSourceScore(result: NormalizedResult): number {
-    // Problem-type aware source scoring
-    if (this.problemType) {
-      const sourceWeights = filters.global.sourceWeights[this.problemType];
-      if (sourceWeights && sourceWeights[result.source]) {
-        return sourceWeights[result.source] * 100;
+  // Votes keep old answers on top; APIs deprecated in the version the caller runs push them down
+  private scoreDeprecations(result: NormalizedResult): { deprecations?: DeprecatedUsage[]; penalty: number } {
+    const settings = filters.global.deprecation;
+    const flagged: DeprecatedUsage[] = [];
+    let demoted = 0;
+
+    for (const deprecation of deprecationCatalog.find(result)) {
+      // Asking about the deprecated API itself, e.g. how to migrate off it
+      if (this.lowerQuery.includes(deprecation.api.toLowerCase())) {
+        continue;
+      }
+
+      // Still current for a caller on an older release
+      const target = this.targetVersions.get(deprecation.technology);
+      if (target && deprecation.version && compareSemVer(target, deprecation.version) < 0) {
+        continue;
+      }
+
+      const { version: _version, pattern: _pattern, ...usage } = deprecation;
+      flagged.push(usage);
+      // Without a target version the caller may be on a release where the API is fine, so only flag it
+      if (target) {
+        demoted++;
       }
     }
-    
+
+    return {
+      deprecations: flagged.length > 0 ? flagged : undefined,
+      penalty: demoted > 0 ? -Math.min(demoted * settings.penalty, settings.maxPenalty) : 0,
+    };
+  }
+
+  private calculateSourceScore(result: NormalizedResult): number {
+    // Problem-type aware source scoring; types without a weight use the profile's
+    // weight for every type, then the legacy score
+    const sourceOverride = this.overrides.sources?.[result.source];
+    const fallback = sourceOverride !== undefined ? sourceOverride * 100 : this.calculateLegacySourceScore(result);
+    return blend(
+      this.problemTypes,
+      type => this.getSourceWeight(result.source, type),
+      fallback
+    );
+  }
+
+  // What recorded feedback taught about this source for the query's problem types; 1 without feedback
+  private getLearnedSourceMultiplier(result: NormalizedResult): number {
+    return blend(this.problemTypes, type => this.feedback?.sourceWeights[type]?.[result.source], 1);
+  }
+
+  // Results the team marked as the fix rise, useless ones sink, and so do their repos, subreddits and tags
+  private getFeedbackBonus(result: NormalizedResult): number {
+    if (!this.feedback || this.feedback.entries === 0) {
+      return 0;
+    }
+
+    const maxEntityBonus = filters.global.feedback.maxEntityBonus;
+    const repo = result.source.startsWith('github') ? repoFromUrl(result.url) : undefined;
+    const tags = result.source === 'stackoverflow' ? result.tags : [];
+    const tagBonus = tags.reduce((sum, tag) => sum + (this.feedback!.tags[tag.toLowerCase()] || 0), 0);
+
+    return (this.feedback.urls[normalizeFeedbackUrl(result.url)] || 0) +
+      (repo ? this.feedback.repos[repo] || 0 : 0) +
+      (result.subreddit ? this.feedback.subreddits[result.subreddit.toLowerCase()] || 0 : 0) +
+      Math.max(-maxEntityBonus, Math.min(maxEntityBonus, tagBonus));
+  }
+
+  private getSourceWeight(source: string, problemType: ProblemType): number | undefined {
+    const override = this.overrides.sourceWeights?.[problemType]?.[source] ?? this.overrides.sources?.[source];
+    if (override !== undefined) {
+      return override * 100;
+    }
+
+    const sourceWeights = filters.global.sourceWeights[problemType];
+    if (sourceWeights && sourceWeights[source]) {
+      return sourceWeights[source] * 100;
+    }
+
+    // Sources without a filters.json entry can ship their own weights
+    const registeredWeight = sourceRegistry.getRegistration(source)?.sourceWeights?.[problemType];
+    if (registeredWeight !== undefined) {
+      return registeredWeight * 100;
+    }
+
+    return undefined;
+  }
+
+  private calculateLegacySourceScore(result: NormalizedResult): number {
     // Fallback to legacy scoring
-    const isBugQuery = /bug|issue|error|fix|problem/i.test(this.query);
-    const isHowToQuery = /how to|how do|what is|explain/i.test(this.query);
+    const isBugQuery = /bug|issue|error|fix|problem/i.test(this.lowerQuery);
+    const isHowToQuery = /how to|how do|what is|explain/i.test(this.lowerQuery);
 
     if (result.source === 'stackoverflow' && isHowToQuery) {
       return 100;
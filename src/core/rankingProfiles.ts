@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { RankingOverrides } from '../types/index.js';
+import { sourceRegistry } from '../adapters/registry.js';
+import { ProblemType } from './queryAnalyzer.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const builtInProfilesPath = path.join(__dirname, '../config/rankingProfiles.json');
+const defaultUserProfilesPath = path.join(os.homedir(), '.devscope', 'ranking-profiles.json');
+
+const WeightSchema = z.number().min(0).max(1);
+
+const ProblemTypeKeySchema = z.enum(
+  Object.values(ProblemType).filter(type => type !== ProblemType.UNKNOWN) as [string, ...string[]]
+);
+
+const SourceKeySchema = z.string().refine(id => sourceRegistry.has(id), id => ({
+  message: `Unknown source "${id}". Available sources: ${sourceRegistry.ids().join(', ')}`,
+}));
+
+const ScoreWeightsSchema = z.object({
+  relevance: WeightSchema.optional(),
+  recency: WeightSchema.optional(),
+  community: WeightSchema.optional(),
+}).strict();
+
+const SourceWeightsSchema = z.record(SourceKeySchema, WeightSchema);
+
+// Same shapes as global.problemTypeWeights and global.sourceWeights in filters.json
+export const RankingOverridesSchema = z.object({
+  // Final weights, used as-is instead of the problem-type blend
+  weights: ScoreWeightsSchema.extend({ source: WeightSchema.optional() }).strict().optional(),
+  problemTypeWeights: z.record(ProblemTypeKeySchema, ScoreWeightsSchema).optional(),
+  // Source weights for every problem type
+  sources: SourceWeightsSchema.optional(),
+  sourceWeights: z.record(ProblemTypeKeySchema, SourceWeightsSchema).optional(),
+}).strict();
+
+const RankingProfileSchema = RankingOverridesSchema.extend({
+  description: z.string().optional(),
+}).strict();
+
+const RankingProfilesFileSchema = z.object({
+  profiles: z.record(z.string().regex(/^[a-z0-9-]+$/, 'Profile names are lowercase words joined by dashes'), RankingProfileSchema),
+}).strict();
+
+export type RankingProfile = z.infer<typeof RankingProfileSchema>;
+
+export class RankingProfiles {
+  private profiles?: Map<string, RankingProfile>;
+
+  // Built-in profiles, then the user's file (RANKING_PROFILES_PATH or
+  // ~/.devscope/ranking-profiles.json), whose profiles replace built-ins of the same name
+  load(): void {
+    const profiles = new Map<string, RankingProfile>();
+    this.readFile(builtInProfilesPath).forEach((profile, name) => profiles.set(name, profile));
+
+    const userPath = process.env.RANKING_PROFILES_PATH || defaultUserProfilesPath;
+    if (process.env.RANKING_PROFILES_PATH || fs.existsSync(userPath)) {
+      this.readFile(userPath).forEach((profile, name) => profiles.set(name, profile));
+    }
+
+    this.profiles = profiles;
+  }
+
+  has(name: string): boolean {
+    return this.getProfiles().has(name);
+  }
+
+  names(): string[] {
+    return [...this.getProfiles().keys()];
+  }
+
+  get(name: string): RankingProfile | undefined {
+    return this.getProfiles().get(name);
+  }
+
+  // A named profile with per-call overrides applied on top, key by key
+  resolve(name?: string, overrides?: RankingOverrides): RankingOverrides {
+    const profile = name ? this.get(name) : undefined;
+    if (name && !profile) {
+      throw new Error(`Unknown ranking profile "${name}". Available profiles: ${this.names().join(', ')}`);
+    }
+
+    const { description: _description, ...base } = profile || {};
+    return {
+      weights: this.merge(base.weights, overrides?.weights),
+      problemTypeWeights: this.mergeNested(base.problemTypeWeights, overrides?.problemTypeWeights),
+      sources: this.merge(base.sources, overrides?.sources),
+      sourceWeights: this.mergeNested(base.sourceWeights, overrides?.sourceWeights),
+    };
+  }
+
+  private getProfiles(): Map<string, RankingProfile> {
+    // Loaded on first use so RANKING_PROFILES_PATH can come from .env
+    if (!this.profiles) {
+      this.load();
+    }
+    return this.profiles!;
+  }
+
+  private readFile(filePath: string): Map<string, RankingProfile> {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot read ranking profiles from ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const parsed = RankingProfilesFileSchema.safeParse(data);
+    if (!parsed.success) {
+      const problems = parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      throw new Error(`Invalid ranking profiles in ${filePath}:\n${problems.join('\n')}`);
+    }
+
+    return new Map(Object.entries(parsed.data.profiles));
+  }
+
+  private merge<T extends object>(base?: T, override?: T): T | undefined {
+    return base || override ? { ...base, ...override } as T : undefined;
+  }
+
+  private mergeNested<T extends object>(base?: Record<string, T>, override?: Record<string, T>): Record<string, T> | undefined {
+    if (!base && !override) {
+      return undefined;
+    }
+
+    const merged: Record<string, T> = { ...base };
+    for (const [key, value] of Object.entries(override || {})) {
+      merged[key] = { ...merged[key], ...value };
+    }
+    return merged;
+  }
+}
+
+export const rankingProfiles = new RankingProfiles();
@@ -0,0 +1,158 @@
+import { RankedResult, SolutionSummary, SummarySentence } from '../types/index.js';
+import { jaccard, tokenize } from '../utils/tokenizer.js';
+import { splitSections } from '../utils/contentSections.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+// Later results in the citation list count for a little less
+const RANK_DECAY = 0.15;
+
+// Checked in this order: "alternatively, use X" is an alternative even though it reads like a fix
+const ALTERNATIVE_PATTERN = /^(?:alternatively|or,? you|another (?:option|way|approach|solution)|if (?:that|this) (?:doesn't|does not|didn't) work)|\b(?:alternatively|another (?:option|way|approach|solution) is|you could also|you can also|as a workaround|a workaround is)\b/i;
+const CAUSE_PATTERN = /\b(?:because|caused by|the (?:reason|cause|root cause|problem|issue) (?:is|was|here is)|happens (?:when|because|if)|occurs (?:when|because|if)|due to|this is (?:a|an) (?:known )?(?:bug|regression|issue)|is a regression|is triggered by)\b/i;
+const FIX_PATTERN = /\b(?:to fix (?:this|it)|the (?:fix|solution) (?:is|was)|(?:fixed|solved|resolved) (?:it |this )?by|(?:you|we) (?:need|have|should|must) to|you can|worked for me|make sure|upgrad(?:e|ing) to|downgrad(?:e|ing) to)\b|^(?:use|set|add|install|upgrade|downgrade|update|run|change|replace|remove|wrap|call|pass|move|enable|disable|configure|switch)\b/i;
+
+type SentenceRole = 'cause' | 'fix' | 'alternative';
+
+interface Candidate extends SummarySentence {
+  role: SentenceRole;
+  score: number;
+  terms: Set<string>;
+}
+
+// Offline extractive summary: sentences from accepted answers, maintainer comments and top
+// comments are scored against the query and sorted into cause, fix and alternatives
+export class SolutionSummarizer {
+  private queryTerms: Set<string>;
+
+  constructor(query: string) {
+    this.queryTerms = new Set(tokenize(query));
+  }
+
+  // `results` are the cited results, in citation order
+  summarize(results: RankedResult[]): SolutionSummary | undefined {
+    const settings = filters.global.summary;
+    const candidates = results
+      .flatMap((result, index) => this.extractCandidates(result, index))
+      .sort((a, b) => b.score - a.score);
+
+    const selected: Candidate[] = [];
+    const pick = (pool: Candidate[], limit: number): SummarySentence[] => {
+      const picked: Candidate[] = [];
+      for (const candidate of pool) {
+        if (picked.length >= limit) {
+          break;
+        }
+        if (selected.some(chosen => jaccard(chosen.terms, candidate.terms) > settings.maxOverlap)) {
+          continue;
+        }
+        picked.push(candidate);
+        selected.push(candidate);
+      }
+      return picked.map(({ text, citation }) => ({ text, citation }));
+    };
+
+    const likelyCause = pick(candidates.filter(candidate => candidate.role === 'cause'), settings.maxCauses);
+    const recommendedFix = pick(candidates.filter(candidate => candidate.role === 'fix'), settings.maxFixes);
+
+    // Fixes from other citations are alternatives to the recommended one
+    const fixCitations = new Set(recommendedFix.map(sentence => sentence.citation));
+    const alternatives = pick(
+      candidates.filter(candidate =>
+        candidate.role === 'alternative' || (candidate.role === 'fix' && !fixCitations.has(candidate.citation))),
+      settings.maxAlternatives
+    );
+
+    if (likelyCause.length === 0 && recommendedFix.length === 0) {
+      return undefined;
+    }
+    return { likelyCause, recommendedFix, alternatives };
+  }
+
+  // "Likely cause: ... [2]" lines, with [n] pointing at the nth citation
+  format(summary: SolutionSummary): string {
+    const line = (label: string, sentences: SummarySentence[]) =>
+      sentences.length > 0 ? `${label}: ${sentences.map(s => `${s.text} [${s.citation}]`).join(' ')}` : undefined;
+
+    return [
+      line('Likely cause', summary.likelyCause),
+      line('Recommended fix', summary.recommendedFix),
+      line('Alternatives', summary.alternatives),
+    ].filter(Boolean).join('\n');
+  }
+
+  private extractCandidates(result: RankedResult, index: number): Candidate[] {
+    const settings = filters.global.summary;
+    const candidates: Candidate[] = [];
+
+    for (const { label, body } of splitSections(result.content)) {
+      const sectionWeight = settings.sectionWeights[label];
+      if (!sectionWeight) {
+        continue;
+      }
+
+      for (const text of this.splitSentences(body)) {
+        const role = this.classify(text);
+        if (!role) {
+          continue;
+        }
+
+        const terms = new Set(tokenize(text));
+        candidates.push({
+          text,
+          citation: index + 1,
+          role,
+          terms,
+          score: sectionWeight * (0.5 + this.queryOverlap(terms)) / (1 + RANK_DECAY * index),
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  private splitSentences(body: string): string[] {
+    const { minSentenceLength, maxSentenceLength } = filters.global.summary;
+
+    return body
+      .replace(/```[\s\S]*?```/g, '\n')
+      .split(/\n+/)
+      .map(line => line.replace(/^\s*(?:[-*>]|\d+[.)])\s+/, '').trim())
+      .flatMap(line => line.split(/(?<=[.!])\s+(?=[A-Z`"'(])/))
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(sentence =>
+        sentence.length >= minSentenceLength &&
+        sentence.length <= maxSentenceLength &&
+        !sentence.endsWith('?') &&
+        !/^https?:\/\/\S+$/.test(sentence) &&
+        !sentence.includes('[code]'));
+  }
+
+  private classify(sentence: string): SentenceRole | undefined {
+    if (ALTERNATIVE_PATTERN.test(sentence)) return 'alternative';
+    if (CAUSE_PATTERN.test(sentence)) return 'cause';
+    if (FIX_PATTERN.test(sentence)) return 'fix';
+    return undefined;
+  }
+
+  private queryOverlap(terms: Set<string>): number {
+    if (this.queryTerms.size === 0) {
+      return 0;
+    }
+    let shared = 0;
+    this.queryTerms.forEach(term => {
+      if (terms.has(term)) {
+        shared++;
+      }
+    });
+    return shared / this.queryTerms.size;
+  }
+}
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { PackageEcosystem } from '../types/index.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const taxonomyPath = path.join(__dirname, '../config/taxonomy.json');
+
+// Sites the Stack Exchange API accepts as a `site` parameter
+const STACK_EXCHANGE_SITES = ['stackoverflow', 'serverfault', 'superuser', 'askubuntu', 'unix', 'dba'];
+
+const PACKAGE_ECOSYSTEMS: PackageEcosystem[] = ['npm', 'pypi', 'go', 'cargo'];
+
+const PackagesSchema = z.object(
+  Object.fromEntries(PACKAGE_ECOSYSTEMS.map(ecosystem => [ecosystem, z.array(z.string().min(1)).optional()]))
+).strict();
+
+const TechnologySchema = z.object({
+  aliases: z.array(z.string().min(1)).min(1),
+  stackOverflowTags: z.array(z.string().regex(/^[a-z0-9+#.-]+$/, 'Stack Overflow tags are lowercase')),
+  subreddits: z.array(z.string().regex(/^\w+$/, 'Subreddits are given without the r/ prefix')),
+  githubRepos: z.array(z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'Repositories are given as owner/name')),
+  stackExchangeSites: z.array(z.enum(STACK_EXCHANGE_SITES as [string, ...string[]])),
+  docs: z.array(z.string().url()),
+  // Dependencies whose version is the technology's version
+  packages: PackagesSchema.optional(),
+  // Clients and SDKs: they show the technology is used, but their versions are their own
+  clientPackages: PackagesSchema.optional(),
+}).strict();
+
+const TaxonomySchema = z.object({
+  technologies: z.record(z.string().regex(/^[a-z0-9+#.-]+$/, 'Technology ids are lowercase'), TechnologySchema),
+}).strict();
+
+export type Technology = z.infer<typeof TechnologySchema> & { id: string };
+
+export interface PackageOwner {
+  technology: string;
+  // False for client libraries, whose version says nothing about the technology's
+  versioned: boolean;
+}
+
+export class TechnologyTaxonomy {
+  private technologies: Map<string, Technology>;
+  private aliasPatterns: Array<{ id: string; pattern: RegExp }>;
+  private packageOwners: Map<string, PackageOwner>;
+
+  constructor(data: unknown) {
+    const parsed = TaxonomySchema.safeParse(data);
+    if (!parsed.success) {
+      const problems = parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      throw new Error(`Invalid technology taxonomy:\n${problems.join('\n')}`);
+    }
+
+    this.technologies = new Map(
+      Object.entries(parsed.data.technologies).map(([id, technology]) => [id, { id, ...technology }])
+    );
+    this.aliasPatterns = this.buildAliasPatterns();
+    this.packageOwners = this.buildPackageOwners();
+  }
+
+  get(id: string): Technology | undefined {
+    return this.technologies.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.technologies.keys()];
+  }
+
+  // Technologies mentioned in free text, in taxonomy order
+  detect(text: string): string[] {
+    const found = new Set<string>();
+
+    for (const { id, pattern } of this.aliasPatterns) {
+      if (pattern.test(text)) {
+        found.add(id);
+      }
+    }
+
+    return this.ids().filter(id => found.has(id));
+  }
+
+  // Technology a dependency belongs to; PyPI names are case-insensitive
+  findByPackage(ecosystem: PackageEcosystem, name: string): PackageOwner | undefined {
+    return this.packageOwners.get(this.packageKey(ecosystem, name));
+  }
+
+  findByRepo(fullName: string): string | undefined {
+    const repo = fullName.toLowerCase();
+    return [...this.technologies.values()]
+      .find(technology => technology.githubRepos.some(candidate => candidate.toLowerCase() === repo))?.id;
+  }
+
+  findByStackOverflowTag(tag: string): string | undefined {
+    return [...this.technologies.values()]
+      .find(technology => technology.stackOverflowTags.includes(tag) || technology.id === tag)?.id;
+  }
+
+  stackOverflowTags(ids: string[]): string[] {
+    return this.collect(ids, technology => technology.stackOverflowTags);
+  }
+
+  subreddits(ids: string[]): string[] {
+    return this.collect(ids, technology => technology.subreddits);
+  }
+
+  githubRepos(ids: string[]): string[] {
+    return this.collect(ids, technology => technology.githubRepos);
+  }
+
+  stackExchangeSites(ids: string[]): string[] {
+    return this.collect(ids, technology => technology.stackExchangeSites);
+  }
+
+  docs(ids: string[]): string[] {
+    return this.collect(ids, technology => technology.docs);
+  }
+
+  private collect(ids: string[], pick: (technology: Technology) => string[]): string[] {
+    const values = ids.flatMap(id => {
+      const technology = this.technologies.get(id);
+      return technology ? pick(technology) : [];
+    });
+
+    return [...new Set(values)];
+  }
+
+  private buildAliasPatterns(): Array<{ id: string; pattern: RegExp }> {
+    const owners = new Map<string, string>();
+    const patterns: Array<{ id: string; pattern: RegExp }> = [];
+
+    for (const technology of this.technologies.values()) {
+      for (const alias of technology.aliases) {
+        const key = alias.toLowerCase();
+        const owner = owners.get(key);
+        if (owner && owner !== technology.id) {
+          throw new Error(`Invalid technology taxonomy: alias "${alias}" belongs to both ${owner} and ${technology.id}`);
+        }
+        owners.set(key, technology.id);
+
+        // Whole-word matches only, so "ts" does not match "settings" and "go" not "good"
+        const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        patterns.push({ id: technology.id, pattern: new RegExp(`(?<![\\w.#+-])${escaped}(?![\\w#+-]|\\.\\w)`, 'i') });
+      }
+    }
+
+    return patterns;
+  }
+
+  private buildPackageOwners(): Map<string, PackageOwner> {
+    const owners = new Map<string, PackageOwner>();
+
+    for (const technology of this.technologies.values()) {
+      for (const ecosystem of PACKAGE_ECOSYSTEMS) {
+        const packages = [
+          ...(technology.packages?.[ecosystem] || []).map(name => ({ name, versioned: true })),
+          ...(technology.clientPackages?.[ecosystem] || []).map(name => ({ name, versioned: false })),
+        ];
+
+        for (const { name, versioned } of packages) {
+          const key = this.packageKey(ecosystem, name);
+          const owner = owners.get(key);
+          if (owner && owner.technology !== technology.id) {
+            throw new Error(`Invalid technology taxonomy: package "${key}" belongs to both ${owner.technology} and ${technology.id}`);
+          }
+          owners.set(key, { technology: technology.id, versioned });
+        }
+      }
+    }
+
+    return owners;
+  }
+
+  private packageKey(ecosystem: PackageEcosystem, name: string): string {
+    return `${ecosystem}:${ecosystem === 'pypi' ? name.toLowerCase().replace(/[_.]/g, '-') : name}`;
+  }
+}
+
+// Loaded once at startup; an invalid file stops the server before it accepts requests
+export const taxonomy = new TechnologyTaxonomy(JSON.parse(fs.readFileSync(taxonomyPath, 'utf-8')));
@@ -0,0 +1,139 @@
+import { NormalizedResult, TechnologyVersion } from '../types/index.js';
+import { parseSemVer } from '../utils/semver.js';
+import { taxonomy } from './taxonomy.js';
+
+const VERSION = String.raw`v?(\d{1,3}(?:\.(?:\d+|x))?(?:\.\d+)?(?:-[0-9A-Za-z.]+)?)`;
+// How far into the content a version is still about the result rather than an aside
+const CONTENT_SCAN_LENGTH = 1500;
+
+export class VersionExtractor {
+  private aliasPatterns: Map<string, RegExp[]>;
+
+  constructor() {
+    this.aliasPatterns = new Map(
+      taxonomy.ids().map(id => [id, (taxonomy.get(id)?.aliases || []).map(alias => this.buildAliasPattern(alias))])
+    );
+  }
+
+  // Versions named next to a technology ("react 18", "node@20.1", "Next.js v14.2")
+  extract(text: string, fallbackTechnology?: string): TechnologyVersion[] {
+    const found = new Map<string, TechnologyVersion>();
+
+    for (const [technology, patterns] of this.aliasPatterns) {
+      let earliest: { index: number; version: string } | null = null;
+      for (const pattern of patterns) {
+        const match = pattern.exec(text);
+        if (match && (!earliest || match.index < earliest.index)) {
+          earliest = { index: match.index, version: match[1] };
+        }
+      }
+
+      const parsed = earliest && this.toTechnologyVersion(technology, earliest.version);
+      if (parsed) {
+        found.set(technology, parsed);
+      }
+    }
+
+    // A bare "5.0.3" belongs to the technology the result is about
+    if (fallbackTechnology && !found.has(fallbackTechnology) && found.size === 0) {
+      const bare = text.match(new RegExp(String.raw`(?<![\w.-])${VERSION}(?!\w|\.\d)`));
+      const parsed = bare && this.toTechnologyVersion(fallbackTechnology, bare[1]);
+      if (parsed && /\./.test(bare![1])) {
+        found.set(fallbackTechnology, parsed);
+      }
+    }
+
+    return [...found.values()];
+  }
+
+  // "fixed in 5.0.3", "landed in react 18.3", "upgrade to >= 2.1"
+  extractFixedIn(text: string, fallbackTechnology?: string): TechnologyVersion | undefined {
+    const phrase = /\b(?:fix(?:ed)?|resolved|patched|addressed|landed|released|shipped|available|solved)\s+(?:in|since|as of|with)\s+|\bupgrad(?:e|ing)\s+to\s+|\b(?:upgrad|updat)(?:e|ing)\s+|\bbump(?:ing)?\s+|\b(?:requires|need)\s+/gi;
+
+    let match;
+    while ((match = phrase.exec(text)) !== null) {
+      const rest = text.slice(match.index + match[0].length, match.index + match[0].length + 60);
+      const versionMatch = rest.match(new RegExp(String.raw`^(?:(?:the\s+)?(?:version|release)\s+)?(?:([\w.#+-]+?)\s*(?:@|\s+to\s+|\s)\s*)?(?:>=\s*)?${VERSION}(?!\w|\.\d)`, 'i'));
+      if (!versionMatch || !/\./.test(versionMatch[2])) {
+        continue;
+      }
+
+      const named = versionMatch[1] ? taxonomy.detect(versionMatch[1])[0] : undefined;
+      const technology = named || fallbackTechnology;
+      const parsed = technology && this.toTechnologyVersion(technology, versionMatch[2]);
+      if (parsed) {
+        return parsed;
+      }
+    }
+
+    return undefined;
+  }
+
+  annotate(result: NormalizedResult, technologies: string[]): NormalizedResult {
+    const fallback = this.getResultTechnology(result, technologies);
+    const tagVersions = this.extractFromTags(result.tags);
+    const text = `${result.title}\n${result.content.substring(0, CONTENT_SCAN_LENGTH)}`;
+
+    // Title and tags describe the result better than versions mentioned in passing
+    const versions = new Map<string, TechnologyVersion>();
+    [...tagVersions, ...this.extract(result.title, fallback), ...this.extract(text)].forEach(version => {
+      if (!versions.has(version.technology)) {
+        versions.set(version.technology, version);
+      }
+    });
+
+    return {
+      ...result,
+      versions: versions.size > 0 ? [...versions.values()] : undefined,
+      fixedIn: this.extractFixedIn(result.content, fallback),
+    };
+  }
+
+  // Stack Overflow versions its tags: "python-3.x", "angular15", "next.js13"
+  private extractFromTags(tags: string[]): TechnologyVersion[] {
+    const versions: TechnologyVersion[] = [];
+
+    for (const tag of tags) {
+      const match = tag.toLowerCase().match(/^(.+?)-?(\d+(?:\.(?:\d+|x))*)$/);
+      const technology = match && taxonomy.findByStackOverflowTag(match[1]);
+      const parsed = technology && this.toTechnologyVersion(technology, match![2]);
+      if (parsed) {
+        versions.push(parsed);
+      }
+    }
+
+    return versions;
+  }
+
+  private getResultTechnology(result: NormalizedResult, technologies: string[]): string | undefined {
+    // Issues in a technology's own repository are about that technology
+    const repo = result.url.match(/github\.com\/([^/]+\/[^/]+)\//);
+    const repoTechnology = repo && taxonomy.findByRepo(repo[1]);
+    if (repoTechnology) {
+      return repoTechnology;
+    }
+
+    const tagTechnologies = [...new Set(result.tags.map(tag => taxonomy.findByStackOverflowTag(tag)).filter(Boolean))];
+    if (tagTechnologies.length === 1) {
+      return tagTechnologies[0];
+    }
+
+    return technologies.length === 1 ? technologies[0] : undefined;
+  }
+
+  private toTechnologyVersion(technology: string, text: string): TechnologyVersion | undefined {
+    const parsed = parseSemVer(text);
+    if (!parsed) {
+      return undefined;
+    }
+
+    return { technology, version: text.replace(/^v/i, ''), ...parsed };
+  }
+
+  private buildAliasPattern(alias: string): RegExp {
+    const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Short aliases need a separator so "TS2307" is not TypeScript 2307
+    const separator = alias.length >= 4 ? String.raw`(?:\s*|@|\s+v(?:ersion)?\s*)` : String.raw`(?:\s+|@)(?:v(?:ersion)?\s*)?`;
+    return new RegExp(String.raw`(?<![\w.#+-])${escaped}${separator}${VERSION}(?!\w|\.\d)`, 'i');
+  }
+}
@@ -0,0 +1,387 @@
+import { PackageEcosystem, WorkspaceContext, WorkspaceDependency, WorkspaceManifests } from '../types/index.js';
+import { taxonomy } from './taxonomy.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Lockfiles of large projects run to several megabytes; anything bigger is not worth parsing
+const MAX_MANIFEST_BYTES = 10 * 1024 * 1024;
+
+export const SUPPORTED_MANIFESTS = [
+  'package.json',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'requirements.txt',
+  'pyproject.toml',
+  'poetry.lock',
+  'go.mod',
+  'Cargo.toml',
+  'Cargo.lock',
+];
+
+// Runtimes implied by the manifest itself rather than by a dependency
+const MANIFEST_RUNTIMES: Record<string, string> = {
+  'requirements.txt': 'python',
+  'pyproject.toml': 'python',
+  'go.mod': 'go',
+  'Cargo.toml': 'rust',
+};
+
+export class WorkspaceScanner {
+  async scan(workspacePath?: string, manifests?: WorkspaceManifests): Promise<WorkspaceContext | undefined> {
+    const files: WorkspaceManifests = {
+      ...(workspacePath ? await this.readManifests(workspacePath) : {}),
+      // Inline contents win over files on disk
+      ...(manifests || {}),
+    };
+
+    const names = SUPPORTED_MANIFESTS.filter(name => files[name] !== undefined);
+    if (names.length === 0) {
+      return undefined;
+    }
+
+    const dependencies: WorkspaceDependency[] = [];
+    const runtimes = new Map<string, string | undefined>();
+
+    for (const name of names) {
+      try {
+        this.parseManifest(name, files[name], dependencies, runtimes);
+      } catch (error) {
+        console.error(`Skipping unreadable ${name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return this.buildContext(names, dependencies, runtimes);
+  }
+
+  private async readManifests(workspacePath: string): Promise<WorkspaceManifests> {
+    const root = path.resolve(workspacePath);
+    const stats = await fs.promises.stat(root).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`workspacePath is not a directory: ${workspacePath}`);
+    }
+
+    const files: WorkspaceManifests = {};
+    for (const name of SUPPORTED_MANIFESTS) {
+      const file = path.join(root, name);
+      try {
+        const fileStats = await fs.promises.stat(file);
+        if (fileStats.size > MAX_MANIFEST_BYTES) {
+          console.error(`Skipping ${name}: larger than ${MAX_MANIFEST_BYTES} bytes`);
+          continue;
+        }
+        files[name] = await fs.promises.readFile(file, 'utf-8');
+      } catch {
+        // Missing manifests are expected; most projects have two or three
+      }
+    }
+
+    return files;
+  }
+
+  private parseManifest(
+    name: string,
+    content: string,
+    dependencies: WorkspaceDependency[],
+    runtimes: Map<string, string | undefined>
+  ): void {
+    if (MANIFEST_RUNTIMES[name] && !runtimes.has(MANIFEST_RUNTIMES[name])) {
+      runtimes.set(MANIFEST_RUNTIMES[name], undefined);
+    }
+
+    switch (name) {
+      case 'package.json':
+        return this.parsePackageJson(content, dependencies, runtimes);
+      case 'package-lock.json':
+        return this.applyLockedVersions('npm', this.parsePackageLock(content), dependencies);
+      case 'yarn.lock':
+        return this.applyLockedVersions('npm', this.parseYarnLock(content), dependencies);
+      case 'pnpm-lock.yaml':
+        return this.applyLockedVersions('npm', this.parsePnpmLock(content), dependencies);
+      case 'requirements.txt':
+        return this.parseRequirements(content, name, dependencies);
+      case 'pyproject.toml':
+        return this.parsePyproject(content, dependencies, runtimes);
+      case 'poetry.lock':
+        return this.applyLockedVersions('pypi', this.parseTomlLock(content), dependencies);
+      case 'go.mod':
+        return this.parseGoMod(content, dependencies, runtimes);
+      case 'Cargo.toml':
+        return this.parseCargoToml(content, dependencies, runtimes);
+      case 'Cargo.lock':
+        return this.applyLockedVersions('cargo', this.parseTomlLock(content), dependencies);
+    }
+  }
+
+  private parsePackageJson(content: string, dependencies: WorkspaceDependency[], runtimes: Map<string, string | undefined>): void {
+    const pkg = JSON.parse(content);
+
+    for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+      for (const [name, range] of Object.entries<string>(pkg[field] || {})) {
+        this.addDependency(dependencies, { name, ecosystem: 'npm', range, manifest: 'package.json' });
+      }
+    }
+
+    if (pkg.engines?.node) {
+      runtimes.set('node.js', this.lowestVersion(pkg.engines.node));
+    }
+  }
+
+  private parsePackageLock(content: string): Map<string, string> {
+    const lock = JSON.parse(content);
+    const versions = new Map<string, string>();
+
+    // Lockfile v2+ keys packages by install path; v1 nests them under dependencies
+    for (const [key, entry] of Object.entries<any>(lock.packages || {})) {
+      const match = key.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+      if (match && entry.version) {
+        versions.set(match[1], entry.version);
+      }
+    }
+    for (const [name, entry] of Object.entries<any>(lock.dependencies || {})) {
+      if (!versions.has(name) && entry.version) {
+        versions.set(name, entry.version);
+      }
+    }
+
+    return versions;
+  }
+
+  private parseYarnLock(content: string): Map<string, string> {
+    const versions = new Map<string, string>();
+    const blockRegex = /^"?((?:@[^@\s"/]+\/)?[^@\s",]+)@[^\n]*:\n((?:[ \t]+.*\n?)*)/gm;
+
+    let match;
+    while ((match = blockRegex.exec(content)) !== null) {
+      // Classic lockfiles quote the version, Berry writes YAML
+      const version = match[2].match(/^\s+version:? "?([^"\s]+)"?/m);
+      if (version && !versions.has(match[1])) {
+        versions.set(match[1], version[1]);
+      }
+    }
+
+    return versions;
+  }
+
+  private parsePnpmLock(content: string): Map<string, string> {
+    const versions = new Map<string, string>();
+    // "/react@18.2.0:" (v6), "react@18.2.0:" (v9) or "/react/18.2.0:" (v5)
+    const keyRegex = /^\s+['"]?\/?((?:@[^@/\s]+\/)?[^@/\s:'"]+)[@/](\d+\.\d+\.\d+[^:(\s'"]*)/gm;
+
+    let match;
+    while ((match = keyRegex.exec(content)) !== null) {
+      if (!versions.has(match[1])) {
+        versions.set(match[1], match[2]);
+      }
+    }
+
+    return versions;
+  }
+
+  private parseRequirements(content: string, manifest: string, dependencies: WorkspaceDependency[]): void {
+    for (const line of content.split('\n')) {
+      const requirement = line.replace(/#.*$/, '').trim();
+      // Options such as -r, -e and --index-url are not packages
+      if (requirement && !requirement.startsWith('-')) {
+        this.addRequirement(requirement, manifest, dependencies);
+      }
+    }
+  }
+
+  private parsePyproject(content: string, dependencies: WorkspaceDependency[], runtimes: Map<string, string | undefined>): void {
+    const sections = this.tomlSections(content);
+
+    const project = sections.get('project') || '';
+    const requiresPython = project.match(/^requires-python\s*=\s*["']([^"']+)["']/m);
+    if (requiresPython) {
+      runtimes.set('python', this.lowestVersion(requiresPython[1]));
+    }
+
+    // PEP 621 lists requirement strings in an array
+    const projectDependencies = project.match(/^dependencies\s*=\s*\[([\s\S]*?)\]/m);
+    if (projectDependencies) {
+      for (const requirement of projectDependencies[1].match(/["'][^"']+["']/g) || []) {
+        this.addRequirement(requirement.slice(1, -1), 'pyproject.toml', dependencies);
+      }
+    }
+
+    // Poetry uses a table of name = constraint
+    for (const section of ['tool.poetry.dependencies', 'tool.poetry.group.dev.dependencies']) {
+      for (const [name, range] of this.tomlDependencyTable(sections.get(section) || '')) {
+        if (name === 'python') {
+          runtimes.set('python', this.lowestVersion(range));
+        } else {
+          this.addDependency(dependencies, { name, ecosystem: 'pypi', range, manifest: 'pyproject.toml' });
+        }
+      }
+    }
+  }
+
+  private parseGoMod(content: string, dependencies: WorkspaceDependency[], runtimes: Map<string, string | undefined>): void {
+    const goVersion = content.match(/^go\s+(\d+\.\d+(?:\.\d+)?)/m);
+    if (goVersion) {
+      runtimes.set('go', goVersion[1]);
+    }
+
+    // Both single-line and block require directives
+    const requireRegex = /^(?:require\s+|\t|\s{2,})([\w.\-/~]+)\s+v(\d+\.\d+\.\d+[^\s]*)/gm;
+    let match;
+    while ((match = requireRegex.exec(content)) !== null) {
+      this.addDependency(dependencies, {
+        name: match[1],
+        ecosystem: 'go',
+        range: `v${match[2]}`,
+        version: match[2].replace(/\+incompatible$/, ''),
+        manifest: 'go.mod',
+      });
+    }
+  }
+
+  private parseCargoToml(content: string, dependencies: WorkspaceDependency[], runtimes: Map<string, string | undefined>): void {
+    const sections = this.tomlSections(content);
+
+    const rustVersion = (sections.get('package') || '').match(/^rust-version\s*=\s*["']([^"']+)["']/m);
+    if (rustVersion) {
+      runtimes.set('rust', rustVersion[1]);
+    }
+
+    for (const section of ['dependencies', 'dev-dependencies', 'build-dependencies', 'workspace.dependencies']) {
+      for (const [name, range] of this.tomlDependencyTable(sections.get(section) || '')) {
+        this.addDependency(dependencies, { name, ecosystem: 'cargo', range, manifest: 'Cargo.toml' });
+      }
+    }
+  }
+
+  // poetry.lock and Cargo.lock share the [[package]] name/version layout
+  private parseTomlLock(content: string): Map<string, string> {
+    const versions = new Map<string, string>();
+    const packageRegex = /\[\[package\]\]\s*\nname\s*=\s*"([^"]+)"\s*\nversion\s*=\s*"([^"]+)"/g;
+
+    let match;
+    while ((match = packageRegex.exec(content)) !== null) {
+      if (!versions.has(match[1])) {
+        versions.set(match[1], match[2]);
+      }
+    }
+
+    return versions;
+  }
+
+  private addRequirement(requirement: string, manifest: string, dependencies: WorkspaceDependency[]): void {
+    // PEP 508: name, optional extras, then the version specifier up to any environment marker
+    const match = requirement.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;@]*)/);
+    if (!match) {
+      return;
+    }
+
+    const range = match[2].trim();
+    this.addDependency(dependencies, {
+      name: match[1],
+      ecosystem: 'pypi',
+      range: range || undefined,
+      version: range.startsWith('==') ? range.slice(2).trim() : undefined,
+      manifest,
+    });
+  }
+
+  private addDependency(dependencies: WorkspaceDependency[], dependency: WorkspaceDependency): void {
+    if (dependencies.some(existing => existing.ecosystem === dependency.ecosystem && existing.name === dependency.name)) {
+      return;
+    }
+
+    const owner = taxonomy.findByPackage(dependency.ecosystem, dependency.name);
+    dependencies.push({
+      ...dependency,
+      version: dependency.version || (dependency.range ? this.lowestVersion(dependency.range) : undefined),
+      technology: owner?.technology,
+      versionsTechnology: owner?.versioned,
+    });
+  }
+
+  // Lockfiles only pin versions of dependencies the project declares itself
+  private applyLockedVersions(ecosystem: PackageEcosystem, locked: Map<string, string>, dependencies: WorkspaceDependency[]): void {
+    for (const dependency of dependencies) {
+      const normalizedName = ecosystem === 'pypi' ? dependency.name.toLowerCase().replace(/[_.]/g, '-') : dependency.name;
+      const version = locked.get(dependency.name) || locked.get(normalizedName);
+      if (dependency.ecosystem === ecosystem && version) {
+        dependency.version = version;
+      }
+    }
+  }
+
+  private buildContext(
+    manifests: string[],
+    dependencies: WorkspaceDependency[],
+    runtimes: Map<string, string | undefined>
+  ): WorkspaceContext {
+    const versions: Record<string, string> = {};
+    const found = new Set<string>();
+
+    for (const [technology, version] of runtimes) {
+      if (version) {
+        versions[technology] = version;
+      }
+    }
+
+    for (const dependency of dependencies) {
+      if (!dependency.technology) {
+        continue;
+      }
+      found.add(dependency.technology);
+      if (dependency.versionsTechnology && dependency.version && !versions[dependency.technology]) {
+        versions[dependency.technology] = dependency.version;
+      }
+    }
+
+    // Libraries say more about a problem than the language they run on
+    const ordered = taxonomy.ids().filter(id => found.has(id));
+    const runtimesOnly = taxonomy.ids().filter(id => runtimes.has(id) && !found.has(id));
+
+    return {
+      manifests,
+      technologies: [...ordered, ...runtimesOnly],
+      versions,
+      dependencies,
+    };
+  }
+
+  // "^18.2.0" -> "18.2.0", ">=4.2,<5" -> "4.2"; wildcards and tags have no version
+  private lowestVersion(range: string): string | undefined {
+    const match = range.match(/\d+(?:\.\d+){0,2}/);
+    return match ? match[0] : undefined;
+  }
+
+  // Bodies of top-level TOML tables keyed by header; enough for manifests, not a TOML parser
+  private tomlSections(content: string): Map<string, string> {
+    const sections = new Map<string, string>();
+    let current = '';
+    let body: string[] = [];
+
+    for (const line of content.split('\n')) {
+      const header = line.match(/^\s*\[([^\[\]]+)\]\s*$/);
+      if (header) {
+        sections.set(current, body.join('\n'));
+        current = header[1].trim();
+        body = [];
+      } else {
+        body.push(line);
+      }
+    }
+    sections.set(current, body.join('\n'));
+
+    return sections;
+  }
+
+  // name = "1.0" or name = { version = "1.0", ... }
+  private tomlDependencyTable(body: string): Array<[string, string]> {
+    const entries: Array<[string, string]> = [];
+    const entryRegex = /^([A-Za-z0-9_.-]+)\s*=\s*(?:"([^"]*)"|\{[^}]*?version\s*=\s*"([^"]*)"[^}]*\}|\{[^}]*\})/gm;
+
+    let match;
+    while ((match = entryRegex.exec(body)) !== null) {
+      entries.push([match[1], match[2] ?? match[3] ?? '*']);
+    }
+
+    return entries;
+  }
+}
@@ -8,16 +8,28 @@ import {
 import { z } from 'zod';
 import dotenv from 'dotenv';
 import { gatherDeveloperContext } from './tools/gatherContext.js';
+import { inspectFeedback, recordFeedback, resetFeedback } from './tools/feedback.js';
+import { sourceRegistry } from './adapters/index.js';
+import { SUPPORTED_MANIFESTS } from './core/workspaceScanner.js';
+import { RankingOverridesSchema, rankingProfiles } from './core/rankingProfiles.js';
 
 // Load environment variables
 dotenv.config();
 
+const IsoDateSchema = z.string()
+  .refine(value => !isNaN(Date.parse(value)), value => ({ message: `Invalid date "${value}"` }))
+  .transform(value => new Date(value));
+
 // Define the tool input schema
 const GatherContextSchema = z.object({
   query: z.string().describe('The search query or question'),
-  sources: z.array(z.enum(['stackoverflow', 'github', 'reddit']))
+  sources: z.array(
+    z.string().refine(id => sourceRegistry.has(id), id => ({
+      message: `Unknown source "${id}". Available sources: ${sourceRegistry.ids().join(', ')}`,
+    }))
+  )
     .optional()
-    .default(['stackoverflow', 'github', 'reddit'])
+    .default(sourceRegistry.defaultIds())
     .describe('Which sources to search'),
   maxResults: z.number()
     .optional()
@@ -27,6 +39,55 @@ const GatherContextSchema = z.object({
     .optional()
     .default('quick')
     .describe('Search depth - quick for fast results, thorough for comprehensive search'),
+  timeWindow: z.object({
+    days: z.number().int().positive().optional(),
+    from: IsoDateSchema.optional(),
+    to: IsoDateSchema.optional(),
+  })
+    .strict()
+    .refine(window => !(window.from && window.to) || window.from <= window.to, {
+      message: 'timeWindow.from must not be after timeWindow.to',
+    })
+    .optional()
+    .describe('Only return results from this period'),
+  explain: z.boolean()
+    .optional()
+    .default(false)
+    .describe('Add a score breakdown to each citation, plus the ranking weights and per-source filter counts'),
+  profile: z.string()
+    .refine(name => rankingProfiles.has(name), name => ({
+      message: `Unknown ranking profile "${name}". Available profiles: ${rankingProfiles.names().join(', ')}`,
+    }))
+    .optional()
+    .describe('Named ranking profile, e.g. "recent-bugs", "canonical-answers" or "discussion-heavy"'),
+  rankingOverrides: RankingOverridesSchema
+    .optional()
+    .describe('Ranking weights for this call, applied on top of the profile'),
+  workspacePath: z.string()
+    .optional()
+    .describe('Project directory whose manifests (package.json, lockfiles, requirements.txt, pyproject.toml, go.mod, Cargo.toml) describe the stack in use'),
+  manifests: z.record(
+    z.string().refine(name => SUPPORTED_MANIFESTS.includes(name), name => ({
+      message: `Unsupported manifest "${name}". Supported manifests: ${SUPPORTED_MANIFESTS.join(', ')}`,
+    })),
+    z.string()
+  )
+    .optional()
+    .describe('Manifest contents keyed by file name, used instead of or on top of workspacePath'),
+});
+
+const RecordFeedbackSchema = z.object({
+  url: z.string().url().describe('URL of a citation returned by gather_developer_context'),
+  verdict: z.enum(['fixed', 'helpful', 'useless']).describe('Whether the result fixed the problem, helped, or was useless'),
+  query: z.string()
+    .optional()
+    .describe('The query the result was returned for, used when the result is not from a recent call'),
+});
+
+const ResetFeedbackSchema = z.object({
+  url: z.string()
+    .optional()
+    .describe('Only forget feedback on this URL; forgets everything when omitted'),
 });
 
 // Create the MCP server
@@ -48,7 +109,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: 'gather_developer_context',
-        description: 'Gather comprehensive context from developer sources (Stack Overflow, GitHub, Reddit) for a given query',
+        description: `Gather comprehensive context from developer sources (${sourceRegistry.list().map(source => source.displayName).join(', ')}) for a given query`,
         inputSchema: {
           type: 'object',
           properties: {
@@ -60,10 +121,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'array',
               items: {
                 type: 'string',
-                enum: ['stackoverflow', 'github', 'reddit'],
+                enum: sourceRegistry.ids(),
               },
               description: 'Which sources to search',
-              default: ['stackoverflow', 'github', 'reddit'],
+              default: sourceRegistry.defaultIds(),
             },
             maxResults: {
               type: 'number',
@@ -76,30 +137,157 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Search depth - quick for fast results, thorough for comprehensive search',
               default: 'quick',
             },
+            timeWindow: {
+              type: 'object',
+              properties: {
+                days: {
+                  type: 'number',
+                  description: 'Only include results from the N days before to (or now)',
+                },
+                from: {
+                  type: 'string',
+                  description: 'ISO 8601 start date (takes precedence over days)',
+                },
+                to: {
+                  type: 'string',
+                  description: 'ISO 8601 end date',
+                },
+              },
+              additionalProperties: false,
+              description: 'Only return results from this period',
+            },
+            explain: {
+              type: 'boolean',
+              description: 'Add a score breakdown to each citation, plus the ranking weights and per-source filter counts',
+              default: false,
+            },
+            profile: {
+              type: 'string',
+              enum: rankingProfiles.names(),
+              description: 'Named ranking profile, e.g. "recent-bugs", "canonical-answers" or "discussion-heavy"',
+            },
+            rankingOverrides: {
+              type: 'object',
+              properties: {
+                weights: {
+                  type: 'object',
+                  description: 'Final relevance, recency, community and source weights (0-1), replacing the problem-type blend',
+                },
+                problemTypeWeights: {
+                  type: 'object',
+                  description: 'Relevance, recency and community weights per problem type (bug, configuration, performance, compatibility, practice)',
+                },
+                sources: {
+                  type: 'object',
+                  description: 'Weight (0-1) per source id for every problem type',
+                },
+                sourceWeights: {
+                  type: 'object',
+                  description: 'Weight (0-1) per source id, keyed by problem type',
+                },
+              },
+              additionalProperties: false,
+              description: 'Ranking weights for this call, applied on top of the profile',
+            },
+            workspacePath: {
+              type: 'string',
+              description: 'Project directory whose manifests (package.json, lockfiles, requirements.txt, pyproject.toml, go.mod, Cargo.toml) describe the stack in use',
+            },
+            manifests: {
+              type: 'object',
+              propertyNames: {
+                enum: SUPPORTED_MANIFESTS,
+              },
+              additionalProperties: {
+                type: 'string',
+              },
+              description: 'Manifest contents keyed by file name, used instead of or on top of workspacePath',
+            },
           },
           required: ['query'],
         },
       },
+      {
+        name: 'record_feedback',
+        description: 'Record whether a returned result fixed the problem, helped, or was useless, so future rankings favour what worked for the team',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'URL of a citation returned by gather_developer_context',
+            },
+            verdict: {
+              type: 'string',
+              enum: ['fixed', 'helpful', 'useless'],
+              description: 'Whether the result fixed the problem, helped, or was useless',
+            },
+            query: {
+              type: 'string',
+              description: 'The query the result was returned for, used when the result is not from a recent call',
+            },
+          },
+          required: ['url', 'verdict'],
+        },
+      },
+      {
+        name: 'inspect_feedback',
+        description: 'Show recorded feedback and the source weights and bonuses learned from it',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'reset_feedback',
+        description: 'Forget recorded feedback, for one URL or entirely',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'Only forget feedback on this URL; forgets everything when omitted',
+            },
+          },
+        },
+      },
     ],
   };
 });
 
 // Handle tool execution
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (request.params.name !== 'gather_developer_context') {
-    throw new Error(`Unknown tool: ${request.params.name}`);
+  switch (request.params.name) {
+    case 'gather_developer_context':
+      return handleGatherContext(request.params.arguments);
+    case 'record_feedback':
+      return handleFeedback(() => recordFeedback(RecordFeedbackSchema.parse(request.params.arguments)));
+    case 'inspect_feedback':
+      return handleFeedback(() => inspectFeedback());
+    case 'reset_feedback':
+      return handleFeedback(() => resetFeedback(ResetFeedbackSchema.parse(request.params.arguments || {}).url));
+    default:
+      throw new Error(`Unknown tool: ${request.params.name}`);
   }
+});
 
+async function handleGatherContext(input: unknown) {
   // Validate the input
-  const args = GatherContextSchema.parse(request.params.arguments);
+  const args = GatherContextSchema.parse(input);
 
   try {
     // Call the main function to gather context
     const result = await gatherDeveloperContext({
       query: args.query,
-      sources: args.sources as ('stackoverflow' | 'github' | 'reddit')[],
+      sources: args.sources,
       maxResults: args.maxResults,
       depth: args.depth as 'quick' | 'thorough',
+      timeWindow: args.timeWindow,
+      explain: args.explain,
+      profile: args.profile,
+      rankingOverrides: args.rankingOverrides,
+      workspacePath: args.workspacePath,
+      manifests: args.manifests,
     });
 
     return {
@@ -124,10 +312,39 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       ],
     };
   }
-});
+}
+
+function handleFeedback(action: () => unknown) {
+  try {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(action(), null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error handling feedback:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: 'Failed to handle feedback',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          }),
+        },
+      ],
+    };
+  }
+}
 
 // Start the server
 async function main() {
+  // Fail at startup rather than on the first call when a profiles file is invalid
+  rankingProfiles.load();
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('DevScope MCP Server started');
@@ -0,0 +1,78 @@
+import { FeedbackEntry, FeedbackVerdict, LearnedAdjustments, SourceId } from '../types/index.js';
+import { feedbackStore, normalizeFeedbackUrl, repoFromUrl } from '../core/feedbackStore.js';
+import { QueryAnalyzer } from '../core/queryAnalyzer.js';
+import { clearResultCache } from './gatherContext.js';
+
+const queryAnalyzer = new QueryAnalyzer();
+
+export interface RecordFeedbackOptions {
+  url: string;
+  verdict: FeedbackVerdict;
+  // The query the result was returned for, when it is no longer in memory
+  query?: string;
+}
+
+export interface RecordFeedbackResult {
+  recorded: FeedbackEntry;
+  // What the ranker now applies to this URL and its source
+  urlBonus: number;
+  sourceWeightMultiplier: number;
+}
+
+export function recordFeedback(options: RecordFeedbackOptions): RecordFeedbackResult {
+  // Results from recent calls carry their source, repo, subreddit and tags; others are read from the URL
+  const recent = feedbackStore.recentResult(options.url);
+  const details = recent
+    ? { ...recent, problemType: options.query ? queryAnalyzer.analyze(options.query).problemType : recent.problemType }
+    : detailsFromUrl(options.url, options.query);
+
+  const recorded = feedbackStore.record(options.url, options.verdict, details);
+  clearResultCache();
+
+  const learned = feedbackStore.adjustments();
+  return {
+    recorded,
+    urlBonus: learned.urls[recorded.url] || 0,
+    sourceWeightMultiplier: learned.sourceWeights[recorded.problemType]?.[recorded.source] ?? 1,
+  };
+}
+
+export function inspectFeedback(): { storePath: string; learned: LearnedAdjustments; entries: FeedbackEntry[] } {
+  return {
+    storePath: feedbackStore.storePath,
+    learned: feedbackStore.adjustments(),
+    entries: feedbackStore.list(),
+  };
+}
+
+export function resetFeedback(url?: string): { removed: number } {
+  const removed = feedbackStore.reset(url);
+  clearResultCache();
+  return { removed };
+}
+
+function detailsFromUrl(url: string, query?: string): Omit<FeedbackEntry, 'url' | 'verdict' | 'recordedAt'> {
+  const source = sourceFromUrl(url);
+  if (!source) {
+    throw new Error(`Cannot tell which source "${url}" came from; pass the URL of a citation returned by gather_developer_context`);
+  }
+
+  const subreddit = url.match(/reddit\.com\/r\/(\w+)/i);
+  return {
+    source,
+    problemType: query ? queryAnalyzer.analyze(query).problemType : 'unknown',
+    repo: source.startsWith('github') ? repoFromUrl(url) : undefined,
+    subreddit: subreddit ? subreddit[1].toLowerCase() : undefined,
+    tags: [],
+  };
+}
+
+function sourceFromUrl(url: string): SourceId | undefined {
+  const normalized = normalizeFeedbackUrl(url);
+  if (/github\.com\/[^/]+\/[^/]+\/discussions\//i.test(normalized)) return 'github-discussions';
+  if (/github\.com\//i.test(normalized)) return 'github';
+  if (/reddit\.com\//i.test(normalized)) return 'reddit';
+  if (/news\.ycombinator\.com\//i.test(normalized)) return 'hackernews';
+  if (/(stackoverflow|serverfault|superuser|askubuntu)\.com\/|\.stackexchange\.com\//i.test(normalized)) return 'stackoverflow';
+  return undefined;
+}
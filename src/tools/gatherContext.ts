@@ -1,12 +1,17 @@
-import { SearchOptions, GatherContextResult, NormalizedResult } from '../types/index.js';
-import { StackOverflowAdapter } from '../adapters/stackoverflow.js';
-import { GitHubRestAdapter } from '../adapters/github-rest.js';
-import { RedditAdapter } from '../adapters/reddit.js';
+import { SearchOptions, GatherContextResult, NormalizedResult, SourceId, FilterReport, RankingExplanation, LearnedAdjustments } from '../types/index.js';
+import { sourceRegistry, SearchContext } from '../adapters/index.js';
 import { ResultRanker } from '../core/ranker.js';
 import { ResultAggregator } from '../core/aggregator.js';
 import { LRUCache } from '../utils/cache.js';
-import { withFallback } from '../utils/errorHandler.js';
-import { QueryAnalyzer } from '../core/queryAnalyzer.js';
+import { QueryAnalysis, QueryAnalyzer } from '../core/queryAnalyzer.js';
+import { WorkspaceScanner } from '../core/workspaceScanner.js';
+import { VersionExtractor } from '../core/versionExtractor.js';
+import { rankingProfiles } from '../core/rankingProfiles.js';
+import { taxonomy } from '../core/taxonomy.js';
+import { feedbackStore } from '../core/feedbackStore.js';
+import { RequestBudget, getDepthProfile, withTimeBudget } from '../utils/requestBudget.js';
+import { resolveTimeWindow } from '../utils/timeWindow.js';
+import { FilterStats } from '../utils/filterStats.js';
 
 // Initialize cache
 const cache = new LRUCache<GatherContextResult>(
@@ -14,19 +19,14 @@ const cache = new LRUCache<GatherContextResult>(
   parseInt(process.env.CACHE_TTL || '900')
 );
 
-// Initialize adapters (lazy initialization for Reddit)
-const stackOverflowAdapter = new StackOverflowAdapter();
-const githubAdapter = new GitHubRestAdapter();
-let redditAdapter: RedditAdapter | null = null;
-
 // Initialize query analyzer
 const queryAnalyzer = new QueryAnalyzer();
+const workspaceScanner = new WorkspaceScanner();
+const versionExtractor = new VersionExtractor();
 
-function getRedditAdapter(): RedditAdapter {
-  if (!redditAdapter) {
-    redditAdapter = new RedditAdapter();
-  }
-  return redditAdapter;
+// Recorded feedback changes rankings, so cached results are dropped with it
+export function clearResultCache(): void {
+  cache.clear();
 }
 
 export async function gatherDeveloperContext(
@@ -34,12 +34,20 @@ export async function gatherDeveloperContext(
 ): Promise<GatherContextResult> {
   const startTime = Date.now();
 
+  // Manifests are read on every call so the cache sees dependency upgrades
+  const workspace = await workspaceScanner.scan(options.workspacePath, options.manifests);
+
   // Check cache first
   const cacheKey = {
     query: options.query,
-    sources: options.sources || ['stackoverflow', 'github', 'reddit'],
+    sources: options.sources || sourceRegistry.defaultIds(),
     maxResults: options.maxResults || 5,
     depth: options.depth || 'quick',
+    timeWindow: options.timeWindow,
+    explain: options.explain || false,
+    profile: options.profile,
+    rankingOverrides: options.rankingOverrides,
+    workspace: workspace && { technologies: workspace.technologies, versions: workspace.versions },
   };
 
   const cachedResult = cache.get(cacheKey);
@@ -54,66 +62,80 @@ export async function gatherDeveloperContext(
   console.log('Gathering context for query:', options.query);
   
   // Analyze the query to determine search strategy
-  const analysis = queryAnalyzer.analyze(options.query);
-  console.log(`Query analysis - Problem type: ${analysis.problemType}, Technologies: ${analysis.technologies.join(', ')}, Specificity: ${analysis.specificity}`);
+  const analysis = queryAnalyzer.analyze(options.query, workspace);
+  console.log(`Query analysis - Problem type: ${analysis.problemType} (confidence ${analysis.confidence.toFixed(2)}), Technologies: ${analysis.technologies.join(', ')}, Specificity: ${analysis.specificity}`);
+  if (workspace) {
+    console.log(`Workspace (${workspace.manifests.join(', ')}): ${Object.entries(workspace.versions).map(([tech, version]) => `${tech} ${version}`).join(', ')}`);
+  }
+  if (analysis.errorSignature) {
+    console.log(`Parsed ${analysis.errorSignature.format} error log, searching for: ${analysis.searchQuery}`);
+  }
 
   // Determine which sources to search
-  const sources = options.sources || ['stackoverflow', 'github', 'reddit'];
+  const sources = (options.sources || sourceRegistry.defaultIds()).filter(id => {
+    if (!sourceRegistry.has(id)) {
+      console.error(`Skipping unknown source: ${id}`);
+      return false;
+    }
+    return true;
+  });
   const maxResults = options.maxResults || parseInt(process.env.MAX_RESULTS_PER_SOURCE || '5');
 
+  // Each depth mode has its own request and time budget
+  const depth = options.depth || 'quick';
+  const profile = getDepthProfile(depth);
+  const deadline = startTime + profile.timeBudgetMs;
+  const timeWindow = resolveTimeWindow(options.timeWindow);
+
   // Search sources in parallel
-  const searchPromises: Promise<NormalizedResult[]>[] = [];
   const incompleteSources: string[] = [];
+  const filterReports: Record<SourceId, FilterReport> = {};
 
-  if (sources.includes('stackoverflow')) {
-    searchPromises.push(
-      stackOverflowAdapter.search(options.query, maxResults, analysis.searchStrategies.stackoverflow, analysis.problemType)
-        .then(results => {
-          console.log(`Stack Overflow returned ${results.length} results`);
-          return results;
-        })
-        .catch(error => {
-          console.error('Stack Overflow search failed:', error);
-          incompleteSources.push('stackoverflow');
-          return [];
-        })
-    );
-  }
+  const searchPromises: Promise<NormalizedResult[]>[] = sources.map(id => {
+    const displayName = sourceRegistry.getRegistration(id)?.displayName || id;
+    const context: SearchContext = {
+      depth,
+      profile,
+      budget: new RequestBudget(profile.maxRequestsPerSource, deadline),
+      timeWindow,
+      problemTypes: analysis.problemTypes,
+      filterStats: new FilterStats(),
+    };
 
-  if (sources.includes('github')) {
-    searchPromises.push(
-      withFallback(
-        () => githubAdapter.search(options.query, maxResults, analysis.searchStrategies.github, analysis.problemType),
-        [],
-        'GitHub'
-      ).catch(error => {
-        console.error('GitHub search failed:', error);
-        incompleteSources.push('github');
-        return [];
+    return searchSource(id, analysis.searchQuery, maxResults, analysis, context)
+      .then(results => {
+        console.log(`${displayName} returned ${results.length} results (${context.budget.requestsUsed} requests)`);
+        filterReports[id] = context.filterStats!.report(results.length);
+        return results;
       })
-    );
-  }
-
-  if (sources.includes('reddit')) {
-    searchPromises.push(
-      getRedditAdapter().search(options.query, maxResults, analysis.searchStrategies.reddit, analysis.problemType)
-        .then(results => {
-          console.log(`Reddit returned ${results.length} results`);
-          return results;
-        })
-        .catch(error => {
-          console.error('Reddit search failed:', error);
-          incompleteSources.push('reddit');
-          return [];
-        })
-    );
-  }
+      .catch(error => {
+        console.error(`${displayName} search failed:`, error);
+        incompleteSources.push(id);
+        filterReports[id] = context.filterStats!.report(0);
+        return [];
+      });
+  });
 
   // Wait for all searches to complete
   const searchResults = await Promise.all(searchPromises);
 
-  // Flatten and combine results
-  const allResults = searchResults.flat();
+  // Flatten and combine results, noting which versions each one is about
+  const allResults = searchResults.flat().map(result => versionExtractor.annotate(result, analysis.technologies));
+
+  // Rank results with problem type awareness
+  const overrides = rankingProfiles.resolve(options.profile, options.rankingOverrides);
+  const ranker = new ResultRanker(analysis.searchQuery, analysis.problemTypes, analysis.technologyVersions, overrides, learnedAdjustments());
+  const explanation: RankingExplanation | undefined = options.explain
+    ? {
+        weights: ranker.scoreWeights,
+        profile: options.profile,
+        problemTypeProfiles: roundShares(analysis.problemTypes),
+        filters: filterReports,
+      }
+    : undefined;
+
+  // Worth reading even when no source found anything
+  const docs = taxonomy.docs(analysis.technologies);
 
   if (allResults.length === 0) {
     const emptyResult: GatherContextResult = {
@@ -121,39 +143,129 @@ export async function gatherDeveloperContext(
       highlights: [],
       citations: [],
       snippets: [],
+      docs: docs.length > 0 ? docs : undefined,
       stats: {
         elapsedMs: Date.now() - startTime,
-        sourceCounts: {},
+        sourceCounts: Object.fromEntries(sources.map(id => [id, 0])),
         cacheHits: 0,
         incompleteSources: incompleteSources.length > 0 ? incompleteSources : undefined,
       },
+      explanation,
     };
     return emptyResult;
   }
 
-  // Rank results with problem type awareness
-  const ranker = new ResultRanker(options.query, analysis.problemType);
   const rankedResults = ranker.rankResults(allResults);
+  feedbackStore.remember(allResults, analysis.problemType);
 
   // Aggregate results
-  const aggregator = new ResultAggregator();
+  const aggregator = new ResultAggregator(analysis.searchQuery);
   const result = aggregator.aggregateResults(
     rankedResults,
+    sources,
     Date.now() - startTime,
     0,
-    incompleteSources.length > 0 ? incompleteSources : undefined
+    incompleteSources.length > 0 ? incompleteSources : undefined,
+    options.explain
   );
 
   // Cache the result with analysis information
   const enhancedResult = {
     ...result,
+    docs: docs.length > 0 ? docs : undefined,
+    explanation,
     queryAnalysis: {
       problemType: analysis.problemType,
+      problemTypes: roundShares(analysis.problemTypes),
+      confidence: Math.round(analysis.confidence * 100) / 100,
       technologies: analysis.technologies,
-      specificity: analysis.specificity
+      specificity: analysis.specificity,
+      searchQuery: analysis.searchQuery,
+      errorSignature: analysis.errorSignature,
+      technologyVersions: Object.keys(analysis.technologyVersions).length > 0 ? analysis.technologyVersions : undefined,
+      workspace: workspace && {
+        manifests: workspace.manifests,
+        technologies: workspace.technologies,
+        versions: workspace.versions
+      }
     }
   };
   cache.set(cacheKey, enhancedResult);
 
   return enhancedResult;
-}
\ No newline at end of file
+}
+
+// Learned feedback is optional and never blocks a search
+function learnedAdjustments(): LearnedAdjustments | undefined {
+  try {
+    return feedbackStore.adjustments();
+  } catch (error) {
+    console.error('Ranking without feedback:', error);
+    return undefined;
+  }
+}
+
+async function searchSource(
+  id: SourceId,
+  query: string,
+  maxResults: number,
+  analysis: QueryAnalysis,
+  context: SearchContext
+): Promise<NormalizedResult[]> {
+  const adapter = sourceRegistry.getAdapter(id);
+  const displayName = sourceRegistry.getRegistration(id)?.displayName || id;
+
+  const results = await withTimeBudget(
+    adapter.search(query, maxResults, analysis.searchStrategies[id], analysis.problemType, context),
+    context.budget,
+    displayName
+  );
+
+  if (!context.profile.reformulate) {
+    return results;
+  }
+
+  // Second round with reformulated queries; failures here keep the first round
+  for (const reformulated of analysis.reformulatedQueries.slice(0, context.profile.maxReformulations)) {
+    if (!context.budget.canSpend()) {
+      break;
+    }
+
+    try {
+      const strategies = queryAnalyzer.strategiesForQuery(reformulated, analysis);
+      const extra = await withTimeBudget(
+        adapter.search(reformulated, maxResults, strategies[id], analysis.problemType, context),
+        context.budget,
+        displayName
+      );
+      console.log(`${displayName} returned ${extra.length} results for reformulated query: ${reformulated}`);
+      results.push(...extra);
+    } catch (error) {
+      console.error(`${displayName} reformulated search failed:`, error);
+      break;
+    }
+  }
+
+  const deduped = dedupeByUrl(results);
+  context.filterStats?.removed('duplicateUrl', results.length - deduped.length);
+  return deduped;
+}
+
+function roundShares(problemTypes: QueryAnalysis['problemTypes']): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(problemTypes)
+      .sort(([, a], [, b]) => (b as number) - (a as number))
+      .map(([type, share]) => [type, Math.round((share as number) * 100) / 100])
+  );
+}
+
+function dedupeByUrl(results: NormalizedResult[]): NormalizedResult[] {
+  const seen = new Set<string>();
+  return results.filter(result => {
+    if (seen.has(result.url)) {
+      return false;
+    }
+    seen.add(result.url);
+    return true;
+  });
+}
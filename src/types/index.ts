@@ -1,3 +1,8 @@
+// Identifier of a registered source adapter (see adapters/registry.ts)
+export type SourceId = string;
+
+export type SearchDepth = 'quick' | 'thorough';
+
 export interface CodeSnippet {
   language: string;
   code: string;
@@ -7,51 +12,193 @@ export interface CodeSnippet {
   };
 }
 
+export type ResolutionStatus = 'fixed' | 'workaround' | 'answered' | 'wont-fix' | 'duplicate' | 'open';
+
+// How a GitHub issue ended, derived from its state_reason and timeline
+export interface IssueResolution {
+  status: ResolutionStatus;
+  stateReason?: string;
+  closedBy?: {
+    type: 'pull_request' | 'commit';
+    url: string;
+    title?: string;
+  };
+  maintainerComments: number;
+  hasWorkaround: boolean;
+}
+
+export type AuthorRole = 'maintainer' | 'contributor' | 'moderator';
+
+// Standing of a result's author, filled by each adapter from what its API reports
+export interface AuthorAuthority {
+  // Maintainer of or contributor to the repository the result is in, or a community moderator
+  role?: AuthorRole;
+  // Stack Exchange reputation
+  reputation?: number;
+  // Raw value the role came from, e.g. GitHub "OWNER" or Reddit "admin"
+  signal?: string;
+}
+
 export interface NormalizedResult {
   title: string;
   url: string;
-  source: 'stackoverflow' | 'github' | 'reddit';
+  source: SourceId;
   author: string;
+  authority?: AuthorAuthority;
   createdAt: Date;
   updatedAt?: Date;
   score: number;
   content: string;
   codeSnippets: CodeSnippet[];
   tags: string[];
-  version?: string;
+  // Versions the result is about, one per technology
+  versions?: TechnologyVersion[];
+  // Release said to contain the fix, e.g. "fixed in 5.0.3"
+  fixedIn?: TechnologyVersion;
   isAccepted?: boolean;
   voteCount?: number;
   subreddit?: string;
+  // Stack Exchange site the result came from, e.g. "serverfault"
+  site?: string;
   upvoteRatio?: number;
+  resolution?: IssueResolution;
+  // Set on answer-level results to point back at the question they answer
+  parent?: {
+    title: string;
+    url: string;
+    score?: number;
+  };
 }
 
+export interface TechnologyVersion {
+  technology: string;
+  version: string;
+  major: number;
+  minor?: number;
+  patch?: number;
+  prerelease?: string;
+}
+
+// A deprecated API or package a result relies on, from config/deprecations.json
+export interface DeprecatedUsage {
+  technology: string;
+  // API name or package name
+  api: string;
+  deprecatedIn?: string;
+  replacement: string;
+}
+
+// How a result's version relates to the version the caller runs
+export type VersionMatch = 'exact' | 'same-major' | 'other-major';
+
 export interface SearchOptions {
   query: string;
   maxResults?: number;
-  sources?: ('stackoverflow' | 'github' | 'reddit')[];
-  depth?: 'quick' | 'thorough';
-  timeWindow?: {
-    days?: number;
-    from?: Date;
-    to?: Date;
-  };
+  sources?: SourceId[];
+  depth?: SearchDepth;
+  timeWindow?: TimeWindow;
+  // Adds a score breakdown to each citation and per-source filter counts
+  explain?: boolean;
+  // Named ranking profile, see core/rankingProfiles.ts
+  profile?: string;
+  // Applied on top of the profile, key by key
+  rankingOverrides?: RankingOverrides;
+  // Project directory whose manifests describe the caller's stack
+  workspacePath?: string;
+  // Manifest contents keyed by file name, for callers that cannot share a path
+  manifests?: WorkspaceManifests;
+}
+
+export type WorkspaceManifests = Record<string, string>;
+
+export type PackageEcosystem = 'npm' | 'pypi' | 'go' | 'cargo';
+
+export interface WorkspaceDependency {
+  name: string;
+  ecosystem: PackageEcosystem;
+  // Declared requirement, e.g. "^5.0.0" or ">=4.2"
+  range?: string;
+  // Locked version, or the lowest version the range allows
+  version?: string;
+  technology?: string;
+  // Whether `version` is also the technology's version (react) or only a client's (pg)
+  versionsTechnology?: boolean;
+  manifest: string;
+}
+
+// Technologies and versions the caller's project actually uses
+export interface WorkspaceContext {
+  manifests: string[];
+  technologies: string[];
+  versions: Record<string, string>;
+  dependencies: WorkspaceDependency[];
+}
+
+export interface TimeWindow {
+  days?: number;
+  from?: Date;
+  to?: Date;
+}
+
+// Absolute bounds derived from a TimeWindow; either side may be open
+export interface ResolvedTimeWindow {
+  from?: Date;
+  to?: Date;
+}
+
+export type ErrorLogFormat = 'node' | 'python' | 'jvm' | 'typescript' | 'rust' | 'go';
+
+export interface StackFrame {
+  symbol?: string;
+  file?: string;
+  package?: string;
+}
+
+// Searchable essence of a pasted stack trace or compiler output
+export interface ErrorSignature {
+  format: ErrorLogFormat;
+  exceptionType?: string;
+  code?: string;
+  message: string;
+  frames: StackFrame[];
+  packages: string[];
 }
 
 export interface GatherContextResult {
   summary: string;
+  // Sentences behind the summary, grouped by what they say
+  solution?: SolutionSummary;
+  // Actions several citations agree on, and where they disagree
+  consensus?: ConsensusReport;
   highlights: string[];
   citations: Citation[];
   snippets: CodeSnippet[];
+  // Official documentation for the technologies searched, from the taxonomy
+  docs?: string[];
   stats: {
     elapsedMs: number;
     sourceCounts: Record<string, number>;
     cacheHits: number;
     incompleteSources?: string[];
   };
+  // Only present when the caller asked for an explanation
+  explanation?: RankingExplanation;
   queryAnalysis?: {
     problemType: string;
+    // Share of each problem type the query was classified as, highest first
+    problemTypes?: Record<string, number>;
+    confidence?: number;
     technologies: string[];
     specificity: string;
+    searchQuery?: string;
+    errorSignature?: ErrorSignature;
+    // Versions the ranking targets, from the query and the workspace
+    technologyVersions?: Record<string, string>;
+    workspace?: {
+      manifests: string[];
+      technologies: string[];
+      versions: Record<string, string>;
+    };
   };
 }
 
@@ -59,16 +206,172 @@ export interface Citation {
   title: string;
   url: string;
   source: string;
+  site?: string;
+  parentUrl?: string;
   author: string;
+  authority?: AuthorAuthority;
   createdAt: string;
   score: number;
-  version?: string;
+  // "react 18.2", one entry per technology
+  versions?: string[];
+  versionMatch?: VersionMatch;
+  // Set when the fix ships in a newer release than the caller runs, e.g. "vite >= 5.0.3"
+  upgradeTo?: string;
+  resolution?: ResolutionStatus;
+  // Deprecated APIs or packages the result uses, unless the caller runs an older version
+  possiblyOutdated?: DeprecatedUsage[];
+  // Other results about the same problem, folded into this citation
+  related?: RelatedLink[];
+  explanation?: ScoreBreakdown;
+  // Set when one of the related results is accepted, even if this one is not
+  acceptedInCluster?: boolean;
   snippet: string;
 }
 
+// A sentence taken verbatim from a cited result
+export interface SummarySentence {
+  text: string;
+  // 1-based position in `citations`, as in the [n] markers of `summary`
+  citation: number;
+}
+
+export interface SolutionSummary {
+  likelyCause: SummarySentence[];
+  recommendedFix: SummarySentence[];
+  alternatives: SummarySentence[];
+}
+
+export type RecommendationKind = 'config' | 'package' | 'command' | 'api';
+
+export type RecommendationStance = 'recommend' | 'discourage';
+
+// One concrete action, e.g. "esModuleInterop: true", "vite@5.0.3", "npm ci" or "createRoot()"
+export interface Recommendation {
+  kind: RecommendationKind;
+  // Config key, package, command or API the action is about
+  subject: string;
+  action: string;
+  // 1-based citation numbers, as in the [n] markers of `summary`
+  citations: number[];
+  agreement: number;
+}
+
+export interface Contradiction {
+  kind: RecommendationKind;
+  subject: string;
+  positions: Array<{
+    action: string;
+    stance: RecommendationStance;
+    citations: number[];
+    // What the discouraging citations use instead
+    replacement?: string;
+  }>;
+}
+
+export interface ConsensusReport {
+  agreements: Recommendation[];
+  contradictions: Contradiction[];
+}
+
+export interface RelatedLink {
+  title: string;
+  url: string;
+  source: SourceId;
+  // On the related result's own scale: question or answer votes, reactions, points
+  voteCount?: number;
+}
+
 export interface RankedResult extends NormalizedResult {
   relevanceScore: number;
   recencyScore: number;
   communityScore: number;
+  sourceScore: number;
+  acceptedBonus: number;
+  versionBonus: number;
+  // From recorded feedback on this URL, its repo, subreddit or tags
+  feedbackBonus: number;
+  // Negative when the result relies on APIs deprecated in the version the caller runs
+  deprecationPenalty: number;
+  // Learned from feedback on the source; scales the weighted component scores
+  sourceMultiplier: number;
   finalScore: number;
-}
\ No newline at end of file
+  versionMatch?: VersionMatch;
+  upgradeTo?: TechnologyVersion;
+  deprecations?: DeprecatedUsage[];
+  // Lower-ranked duplicates from this or other sources, set by ResultClusterer
+  related?: RelatedLink[];
+  // Set by ResultClusterer when a related result is accepted
+  acceptedInCluster?: boolean;
+}
+// Ranking weights that replace the ones in filters.json for one call
+export interface RankingOverrides {
+  weights?: Partial<ScoreWeights>;
+  problemTypeWeights?: Record<string, Partial<Omit<ScoreWeights, 'source'>>>;
+  // Source weights for every problem type
+  sources?: Record<SourceId, number>;
+  sourceWeights?: Record<string, Record<SourceId, number>>;
+}
+
+export interface ScoreWeights {
+  relevance: number;
+  recency: number;
+  community: number;
+  source: number;
+}
+
+// Component scores (0-100) and flat bonuses that add up to a result's final score
+export interface ScoreBreakdown {
+  relevance: number;
+  recency: number;
+  community: number;
+  source: number;
+  sourceMultiplier: number;
+  acceptedBonus: number;
+  versionBonus: number;
+  feedbackBonus: number;
+  deprecationPenalty: number;
+  final: number;
+}
+
+// What one source fetched, how many raw items each filter removed and what was returned
+export interface FilterReport {
+  fetched: number;
+  removed: Record<string, number>;
+  returned: number;
+}
+
+export interface RankingExplanation {
+  weights: ScoreWeights;
+  // Ranking profile the call selected, if any
+  profile?: string;
+  // problemTypeWeights profiles blended into the weights, with their shares
+  problemTypeProfiles: Record<string, number>;
+  filters: Record<SourceId, FilterReport>;
+}
+
+// "fixed" means the result was the fix; "useless" buries it and similar results
+export type FeedbackVerdict = 'fixed' | 'helpful' | 'useless';
+
+export interface FeedbackEntry {
+  url: string;
+  verdict: FeedbackVerdict;
+  source: SourceId;
+  // Top problem type of the query the result answered
+  problemType: string;
+  repo?: string;
+  subreddit?: string;
+  tags: string[];
+  recordedAt: string;
+}
+
+// What the ranker takes from recorded feedback
+export interface LearnedAdjustments {
+  entries: number;
+  // Multiplier on each source's weight, keyed by problem type, then source
+  sourceWeights: Record<string, Record<SourceId, number>>;
+  // Score points added to (or taken from) matching results
+  urls: Record<string, number>;
+  repos: Record<string, number>;
+  subreddits: Record<string, number>;
+  tags: Record<string, number>;
+}
@@ -0,0 +1,17 @@
+import { AuthorAuthority } from '../types/index.js';
+
+// GitHub's author_association is relative to the repository the issue or discussion is in,
+// so an OWNER or MEMBER there maintains the code the result is about
+export function githubAuthority(association: string | null | undefined, maintainerAssociations: string[]): AuthorAuthority | undefined {
+  if (!association) {
+    return undefined;
+  }
+
+  if (maintainerAssociations.includes(association)) {
+    return { role: 'maintainer', signal: association };
+  }
+  if (association === 'CONTRIBUTOR') {
+    return { role: 'contributor', signal: association };
+  }
+  return undefined;
+}
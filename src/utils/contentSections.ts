@@ -0,0 +1,19 @@
+// Adapters append answers and comments as "--- ACCEPTED ANSWER (12 votes) ---" sections
+const SECTION_HEADER = /\n\n--- ([A-Z][A-Z ]*[A-Z])\b[^\n]* ---\n\n/g;
+
+export interface ContentSection {
+  // "ACCEPTED ANSWER", "MAINTAINER COMMENT", "COMMENT", ...
+  label: string;
+  body: string;
+}
+
+// The labeled sections after a result's own text, in order
+export function splitSections(content: string): ContentSection[] {
+  const headers = [...content.matchAll(SECTION_HEADER)];
+
+  return headers.map((header, i) => {
+    const start = header.index! + header[0].length;
+    const end = i + 1 < headers.length ? headers[i + 1].index! : content.length;
+    return { label: header[1], body: content.substring(start, end) };
+  });
+}
@@ -0,0 +1,31 @@
+import { FilterReport } from '../types/index.js';
+
+// Counts what one source fetched and how many raw items each filter dropped,
+// so an explained search can show why results are missing
+export class FilterStats {
+  private fetchedCount: number;
+  private removedCounts: Map<string, number>;
+
+  constructor() {
+    this.fetchedCount = 0;
+    this.removedCounts = new Map();
+  }
+
+  fetched(count: number): void {
+    this.fetchedCount += count;
+  }
+
+  removed(filter: string, count = 1): void {
+    if (count > 0) {
+      this.removedCounts.set(filter, (this.removedCounts.get(filter) || 0) + count);
+    }
+  }
+
+  report(returned: number): FilterReport {
+    return {
+      fetched: this.fetchedCount,
+      removed: Object.fromEntries(this.removedCounts),
+      returned,
+    };
+  }
+}
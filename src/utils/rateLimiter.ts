@@ -25,25 +25,35 @@ export const redditLimiter = new Bottleneck({
   reservoirRefreshInterval: 60 * 1000, // per minute
 });
 
-// Helper function for exponential backoff
+export const hackerNewsLimiter = new Bottleneck({
+  maxConcurrent: 2,
+  minTime: 200, // Algolia allows 10,000 requests per hour per IP
+  reservoir: 10000,
+  reservoirRefreshAmount: 10000,
+  reservoirRefreshInterval: 60 * 60 * 1000, // per hour
+});
+
+// Helper function for exponential backoff; an aborted signal ends the wait and the retries
 export async function withRetry<T>(
   fn: () => Promise<T>,
   maxRetries = 3,
-  initialDelay = 1000
+  initialDelay = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error | undefined;
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    signal?.throwIfAborted();
     try {
       return await fn();
     } catch (error) {
       lastError = error as Error;
       
       // Check if it's a rate limit error
-      if (error instanceof Error && error.message.includes('429')) {
+      if (error instanceof Error && error.message.includes('429') && !signal?.aborted) {
         const delay = initialDelay * Math.pow(2, attempt) + Math.random() * 1000; // Add jitter
         console.error(`Rate limited, retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await sleep(delay, signal);
       } else {
         throw error;
       }
@@ -51,4 +61,36 @@ export async function withRetry<T>(
   }
   
   throw lastError || new Error('Max retries exceeded');
+}
+
+// One HTTP request: queued on its source's limiter and retried on its own, so a 429 on a
+// later page does not repeat the pages before it. Nothing starts once `signal` is aborted
+export function scheduleRequest<T>(
+  limiter: Bottleneck,
+  request: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return withRetry(
+    () => limiter.schedule(() => {
+      signal?.throwIfAborted();
+      return request();
+    }),
+    3,
+    1000,
+    signal
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { SearchDepth } from '../types/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load filter configuration
+const filtersPath = path.join(__dirname, '../config/filters.json');
+const filters = JSON.parse(fs.readFileSync(filtersPath, 'utf-8'));
+
+export interface DepthProfile {
+  maxPages: number;
+  maxRequestsPerSource: number;
+  timeBudgetMs: number;
+  reformulate: boolean;
+  maxReformulations: number;
+  fetchDetails: boolean;
+  // GitHub issues whose timeline (comments, how they closed) is fetched, best-ranked first
+  maxTimelines: number;
+}
+
+export function getDepthProfile(depth: SearchDepth): DepthProfile {
+  return filters.global.depthProfiles[depth] || filters.global.depthProfiles.quick;
+}
+
+export class RequestBudget {
+  private used: number;
+  private reserved: number;
+  // Aborted when the source runs out of time, so requests in flight or queued stop
+  private controller: AbortController;
+
+  constructor(
+    private maxRequests: number,
+    private deadline: number
+  ) {
+    this.used = 0;
+    this.reserved = 0;
+    this.controller = new AbortController();
+  }
+
+  // Optional requests (extra pages, details, reformulations) check this first
+  canSpend(requests = 1): boolean {
+    return !this.isExpired() && this.used + this.reserved + requests <= this.maxRequests;
+  }
+
+  consume(requests = 1): void {
+    this.used += requests;
+  }
+
+  // Holds requests back from canSpend until released, for work that must still run later
+  reserve(requests: number): void {
+    this.reserved += requests;
+  }
+
+  release(requests: number): void {
+    this.reserved = Math.max(this.reserved - requests, 0);
+  }
+
+  isExpired(): boolean {
+    return Date.now() >= this.deadline;
+  }
+
+  // Passed to every HTTP request an adapter makes
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  abort(reason?: Error): void {
+    this.controller.abort(reason);
+  }
+
+  get remainingMs(): number {
+    return Math.max(this.deadline - Date.now(), 0);
+  }
+
+  get requestsUsed(): number {
+    return this.used;
+  }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(source: string, budgetMs: number) {
+    super(`${source} exceeded its time budget of ${budgetMs}ms`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export async function withTimeBudget<T>(
+  promise: Promise<T>,
+  budget: RequestBudget,
+  source: string
+): Promise<T> {
+  const budgetMs = budget.remainingMs;
+  let timer: NodeJS.Timeout | undefined;
+
+  // Racing alone would leave the search running; aborting stops its remaining requests
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new BudgetExceededError(source, budgetMs);
+      budget.abort(error);
+      reject(error);
+    }, budgetMs);
+  });
+
+  // The search fails with the abort once it loses the race; nothing is waiting for it then
+  promise.catch(() => undefined);
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
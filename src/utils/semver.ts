@@ -0,0 +1,46 @@
+export interface SemVer {
+  major: number;
+  minor?: number;
+  patch?: number;
+  prerelease?: string;
+}
+
+// Accepts partial versions as people write them: "18", "5.x", "3.11", "v2.0.0-beta.1"
+export function parseSemVer(text: string): SemVer | null {
+  const match = text.trim().match(/^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(?:-([0-9A-Za-z.-]+))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const part = (value?: string) => (value && /^\d+$/.test(value) ? parseInt(value, 10) : undefined);
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: part(match[2]),
+    patch: match[2] && /^\d+$/.test(match[2]) ? part(match[3]) : undefined,
+    prerelease: match[4],
+  };
+}
+
+// Missing parts count as 0; a prerelease sorts before its release
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  const parts: Array<keyof SemVer> = ['major', 'minor', 'patch'];
+  for (const key of parts) {
+    const diff = ((a[key] as number | undefined) ?? 0) - ((b[key] as number | undefined) ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  if (a.prerelease && !b.prerelease) return -1;
+  if (!a.prerelease && b.prerelease) return 1;
+  return (a.prerelease || '').localeCompare(b.prerelease || '', undefined, { numeric: true });
+}
+
+// Equal in every part both versions specify, so "18" matches "18.2.0"
+export function isSameRelease(a: SemVer, b: SemVer): boolean {
+  if (a.major !== b.major) return false;
+  if (a.minor !== undefined && b.minor !== undefined && a.minor !== b.minor) return false;
+  if (a.patch !== undefined && b.patch !== undefined && a.patch !== b.patch) return false;
+  return true;
+}
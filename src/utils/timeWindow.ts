@@ -0,0 +1,44 @@
+import { ResolvedTimeWindow, TimeWindow } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `days` is shorthand for a window ending at `to`, or now; an explicit `from` takes precedence
+export function resolveTimeWindow(timeWindow?: TimeWindow): ResolvedTimeWindow | undefined {
+  if (!timeWindow) {
+    return undefined;
+  }
+
+  const to = timeWindow.to;
+  const end = to ? to.getTime() : Date.now();
+  const from = timeWindow.from || (timeWindow.days ? new Date(end - timeWindow.days * DAY_MS) : undefined);
+
+  if (!from && !to) {
+    return undefined;
+  }
+
+  return { from, to };
+}
+
+export function isWithinTimeWindow(date: Date, timeWindow?: ResolvedTimeWindow): boolean {
+  if (!timeWindow) {
+    return true;
+  }
+
+  if (timeWindow.from && date < timeWindow.from) {
+    return false;
+  }
+
+  if (timeWindow.to && date > timeWindow.to) {
+    return false;
+  }
+
+  return true;
+}
+
+export function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,61 @@
+// Words too common in developer questions to say anything about relevance
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before',
+  'but', 'by', 'can', 'cannot', 'could', 'did', 'do', 'does', 'doing', 'dont', 'for', 'from', 'get', 'gets',
+  'getting', 'had', 'has', 'have', 'having', 'how', 'i', 'if', 'im', 'in', 'into', 'is', 'it', 'its', 'just',
+  'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'should', 'so', 'some', 'than', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'too', 'up', 'use', 'using', 'very', 'was',
+  'way', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you',
+  'your', 'e.g', 'i.e', 'etc',
+]);
+
+// Runs of identifier characters; dots, #, + and - stay so "next.config.js" and "c++" survive
+const RAW_TOKEN = /[\p{L}\p{N}_$#+.-]+/gu;
+
+// Lowercased terms for relevance scoring. Identifiers are kept whole and also split into
+// their parts, so "useEffect" matches both "useeffect" and "effect" and "max_connections"
+// matches "connections"
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.matchAll(RAW_TOKEN)) {
+    const raw = match[0].replace(/^[.\-+#]+|[.\-]+$/g, '');
+    if (!raw) {
+      continue;
+    }
+
+    const whole = raw.toLowerCase();
+    addToken(tokens, whole);
+
+    const parts = raw
+      .split(/[._$\-]+/)
+      .flatMap(part => part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+      .map(part => part.toLowerCase())
+      .filter(part => part && part !== whole);
+    if (parts.length > 1) {
+      parts.forEach(part => addToken(tokens, part));
+    }
+  }
+
+  return tokens;
+}
+
+// Share of terms two token sets have in common, from 0 to 1
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) {
+      shared++;
+    }
+  });
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+function addToken(tokens: string[], token: string): void {
+  // Single letters carry no meaning, but version numbers like "5" do
+  if (STOPWORDS.has(token) || (token.length < 2 && !/\d/.test(token))) {
+    return;
+  }
+  tokens.push(token);
+}
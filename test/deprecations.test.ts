@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deprecations } from '../src/core/deprecations.js';
+import { NormalizedResult } from '../src/types/index.js';
+
+function result(title: string, language: string, tags: string[] = []): NormalizedResult {
+  return {
+    title,
+    url: 'https://stackoverflow.com/questions/1',
+    source: 'stackoverflow',
+    author: 'someone',
+    createdAt: new Date(),
+    score: 10,
+    content: 'Print it once the loop is done.',
+    codeSnippets: [{ language, code: 'print "done"' }],
+    tags,
+    voteCount: 10,
+  };
+}
+
+test('deprecations are only checked for technologies the result is about', () => {
+  const perl = deprecations.find(result('Write a line to a file in Perl', 'perl', ['perl']));
+  assert.deepEqual(perl.map(deprecation => deprecation.api), []);
+
+  const python = deprecations.find(result('Write a line to a file', 'python', ['python-2.7']));
+  assert.deepEqual(python.map(deprecation => deprecation.api), ['print statement']);
+});
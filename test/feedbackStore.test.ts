@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeedbackStore } from '../src/core/feedbackStore.js';
+
+test('a corrupt feedback store is moved aside and ranking goes on without feedback', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devscope-feedback-'));
+  const storePath = path.join(dir, 'feedback.json');
+  fs.writeFileSync(storePath, '{ "entries": [');
+  process.env.FEEDBACK_STORE_PATH = storePath;
+
+  try {
+    const learned = new FeedbackStore().adjustments();
+    assert.equal(learned.entries, 0);
+    assert.equal(fs.existsSync(storePath), false);
+    assert.equal(fs.readdirSync(dir).filter(name => name.startsWith('feedback.json.invalid-')).length, 1);
+  } finally {
+    delete process.env.FEEDBACK_STORE_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('invalid entries are skipped and the rest still count', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devscope-feedback-'));
+  const storePath = path.join(dir, 'feedback.json');
+  const entry = {
+    url: 'https://github.com/vitejs/vite/issues/1',
+    verdict: 'fixed',
+    source: 'github',
+    problemType: 'bug',
+    tags: [],
+    recordedAt: new Date().toISOString(),
+  };
+  fs.writeFileSync(storePath, JSON.stringify({ entries: [entry, { url: 'https://example.com' }] }));
+  process.env.FEEDBACK_STORE_PATH = storePath;
+
+  try {
+    const learned = new FeedbackStore().adjustments();
+    assert.equal(learned.entries, 1);
+    assert.ok(learned.urls[entry.url] > 0);
+  } finally {
+    delete process.env.FEEDBACK_STORE_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
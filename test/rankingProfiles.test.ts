@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+// Registers the built-in sources that profiles name
+import '../src/adapters/index.js';
+import { ResultRanker } from '../src/core/ranker.js';
+import { rankingProfiles } from '../src/core/rankingProfiles.js';
+import { ProblemType, ProblemTypeDistribution } from '../src/core/queryAnalyzer.js';
+import { NormalizedResult, SourceId } from '../src/types/index.js';
+
+const createdAt = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+function result(source: SourceId, title: string): NormalizedResult {
+  return {
+    title,
+    url: `https://example.com/${source}`,
+    source,
+    author: 'someone',
+    createdAt,
+    score: 20,
+    content: 'Hydration mismatch after upgrading, fixed by moving the date formatting into an effect.',
+    codeSnippets: [],
+    tags: [],
+    voteCount: 20,
+  };
+}
+
+const results = [
+  result('github', 'Hydration mismatch warning after upgrade'),
+  result('reddit', 'Hydration mismatch warning after upgrade?'),
+  result('hackernews', 'Hydration mismatch warning after an upgrade'),
+];
+
+function topSource(profile: string, problemTypes: ProblemTypeDistribution = {}): SourceId {
+  const ranker = new ResultRanker('hydration mismatch warning', problemTypes, {}, rankingProfiles.resolve(profile));
+  return ranker.rankResults(results)[0].source;
+}
+
+test('switching profile reorders mixed-source results', () => {
+  assert.equal(topSource('recent-bugs'), 'github');
+  assert.equal(topSource('discussion-heavy'), 'reddit');
+});
+
+test('profile source weights apply to classified and unclassified queries alike', () => {
+  const bug: ProblemTypeDistribution = { [ProblemType.BUG_REPORT]: 0.6 };
+  assert.equal(topSource('recent-bugs', bug), 'github');
+  assert.equal(topSource('discussion-heavy', bug), 'reddit');
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Bottleneck from 'bottleneck';
+import { scheduleRequest } from '../src/utils/rateLimiter.js';
+import { BudgetExceededError, RequestBudget, withTimeBudget } from '../src/utils/requestBudget.js';
+
+test('a rate-limited request is retried on its own', async () => {
+  const limiter = new Bottleneck({ maxConcurrent: 1 });
+  const calls: string[] = [];
+  let failures = 1;
+
+  const request = (name: string) => scheduleRequest(limiter, async () => {
+    calls.push(name);
+    if (name === 'page 2' && failures-- > 0) {
+      throw new Error('Request failed with status code 429');
+    }
+    return name;
+  });
+
+  assert.equal(await request('page 1'), 'page 1');
+  assert.equal(await request('page 2'), 'page 2');
+  assert.deepEqual(calls, ['page 1', 'page 2', 'page 2']);
+});
+
+test('running out of time stops the requests a search has left', async () => {
+  const limiter = new Bottleneck({ maxConcurrent: 1, minTime: 100 });
+  const budget = new RequestBudget(10, Date.now() + 150);
+  let started = 0;
+
+  const search = async () => {
+    for (let page = 1; page <= 5; page++) {
+      await scheduleRequest(limiter, async () => {
+        started++;
+      }, budget.signal);
+    }
+  };
+
+  await assert.rejects(withTimeBudget(search(), budget, 'Test'), BudgetExceededError);
+  assert.equal(budget.signal.aborted, true);
+
+  // Give the limiter time to release the jobs that were queued before the deadline
+  await new Promise(resolve => setTimeout(resolve, 300));
+  assert.ok(started < 5, `expected the search to stop early, but ${started} requests started`);
+});
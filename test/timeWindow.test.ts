@@ -0,0 +1,10 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveTimeWindow } from '../src/utils/timeWindow.js';
+
+test('days counts back from to when both are given', () => {
+  const to = new Date('2024-03-31T00:00:00Z');
+  const window = resolveTimeWindow({ days: 30, to });
+  assert.equal(window?.from?.toISOString(), '2024-03-01T00:00:00.000Z');
+  assert.equal(window?.to, to);
+});
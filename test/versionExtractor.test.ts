@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VersionExtractor } from '../src/core/versionExtractor.js';
+
+const extractor = new VersionExtractor();
+
+test('"upgrade <tech> to <version>" names the fixed-in release', () => {
+  const fixedIn = extractor.extractFixedIn('This was a bug in the dev server, upgrade vite to 5.0.3 and it goes away.', 'react');
+  assert.equal(fixedIn?.technology, 'vite');
+  assert.equal(fixedIn?.version, '5.0.3');
+});
+
+test('"update it to <version>" falls back to the result technology', () => {
+  const fixedIn = extractor.extractFixedIn('Update it to 18.2.0, the hydration warning is gone there.', 'react');
+  assert.equal(fixedIn?.technology, 'react');
+  assert.equal(fixedIn?.version, '18.2.0');
+});
+
+test('"bump <tech> to <version>" is read the same way', () => {
+  const fixedIn = extractor.extractFixedIn('Bumping react to v18.3.1 fixed it for me.');
+  assert.equal(fixedIn?.technology, 'react');
+  assert.equal(fixedIn?.version, '18.3.1');
+});